@@ -0,0 +1,292 @@
+import { describe, expect, it, vi } from "vitest";
+import UploadChunkFile from "./UploadChunkFile";
+import ConcurrencyLimiter from "./utils/ConcurrencyLimiter";
+import MemoryStateStore from "./stores/MemoryStateStore";
+import createFingerprint from "./utils/createFingerprint";
+import { UploadAbortedError } from "./utils/Errors";
+import type { HookContext, Transport, TransportResponse } from "./types";
+
+const response = (
+  status: number,
+  headers: Record<string, string> = {}
+): TransportResponse => ({
+  status,
+  responseText: JSON.stringify({ status }),
+  getHeader: (name) => headers[name] ?? null,
+});
+
+// Transport that answers with the given statuses in order, then 200
+const scriptedTransport = (...statuses: number[]) => {
+  const send = vi.fn(async () => response(statuses.shift() ?? 200));
+  return { send } satisfies Transport;
+};
+
+const file = new File(["hello world"], "hello.txt");
+
+describe("UploadChunkFile retries", () => {
+  it("does not retry when maxRetries is 0", async () => {
+    const transport = scriptedTransport(503, 503);
+    const uploader = new UploadChunkFile({ transport, maxRetries: 0 });
+
+    await expect(
+      uploader.uploadFile({ file, uploadUrl: "/upload" })
+    ).rejects.toMatchObject({ status: 503, attempt: 1 });
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a chunk up to maxRetries times", async () => {
+    const transport = scriptedTransport(503, 500);
+    const uploader = new UploadChunkFile({
+      transport,
+      maxRetries: 2,
+      retryDelay: 0,
+    });
+
+    await expect(
+      uploader.uploadFile({ file, uploadUrl: "/upload" })
+    ).resolves.toEqual({ response: { status: 200 } });
+    expect(transport.send).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails fast on client errors", async () => {
+    const transport = scriptedTransport(400);
+    const uploader = new UploadChunkFile({ transport, retryDelay: 0 });
+
+    await expect(
+      uploader.uploadFile({ file, uploadUrl: "/upload" })
+    ).rejects.toMatchObject({ status: 400 });
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for Retry-After before the next attempt", async () => {
+    vi.useFakeTimers();
+    try {
+      const transport = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce(response(429, { "Retry-After": "5" }))
+          .mockResolvedValue(response(200)),
+      };
+      const uploader = new UploadChunkFile({ transport, retryDelay: 10 });
+      const result = uploader.uploadFile({ file, uploadUrl: "/upload" });
+
+      await vi.advanceTimersByTimeAsync(4900);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+      await expect(result).resolves.toEqual({ response: { status: 200 } });
+      expect(transport.send).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("UploadChunkFile requestLimiter", () => {
+  it("lets other uploads use the shared slot during a retry delay", async () => {
+    vi.useFakeTimers();
+    try {
+      const transport = scriptedTransport(503);
+      const requestLimiter = new ConcurrencyLimiter(1);
+      const first = new UploadChunkFile({
+        transport,
+        requestLimiter,
+        retryDelay: 60000,
+        retryPolicy: { jitter: "none" },
+      });
+      const second = new UploadChunkFile({ transport, requestLimiter });
+
+      const firstResult = first.uploadFile({ file, uploadUrl: "/first" });
+      await vi.advanceTimersByTimeAsync(100);
+      const secondResult = second.uploadFile({ file, uploadUrl: "/second" });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await expect(secondResult).resolves.toEqual({
+        response: { status: 200 },
+      });
+      expect(transport.send).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(60000);
+      await expect(firstResult).resolves.toEqual({ response: { status: 200 } });
+      expect(transport.send).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("holds a whole file upload until a shared slot is free", async () => {
+    const requestLimiter = new ConcurrencyLimiter(0);
+    const transport = scriptedTransport();
+    const uploader = new UploadChunkFile({
+      transport,
+      requestLimiter,
+      uploadType: "single",
+    });
+
+    const result = uploader.uploadFile({ file, uploadUrl: "/upload" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(transport.send).not.toHaveBeenCalled();
+
+    requestLimiter.setLimit(1);
+    await expect(result).resolves.toEqual({ response: { status: 200 } });
+  });
+});
+
+describe("UploadChunkFile hooks", () => {
+  it("receives the upload and the attempt of every request", async () => {
+    const transport = scriptedTransport(503);
+    const contexts: HookContext[] = [];
+    const uploader = new UploadChunkFile({
+      transport,
+      retryDelay: 0,
+      hooks: {
+        beforeRequest: (_, context) => {
+          contexts.push(context);
+        },
+      },
+    });
+
+    await uploader.uploadFile({ file, uploadUrl: "/upload", uploadId: "u1" });
+
+    expect(contexts).toEqual([
+      expect.objectContaining({
+        uploadId: "u1",
+        fileName: "hello.txt",
+        chunkIndex: 0,
+        attempt: 1,
+      }),
+      expect.objectContaining({ chunkIndex: 0, attempt: 2 }),
+    ]);
+  });
+});
+
+describe("UploadChunkFile resume", () => {
+  // Transport that records the upload id and index of every chunk
+  const recordingTransport = (...statuses: number[]) => {
+    const chunks: { uploadId: string; chunkIndex: string }[] = [];
+    const transport: Transport = {
+      send: async ({ body }) => {
+        const form = body as FormData;
+        chunks.push({
+          uploadId: form.get("uploadId") as string,
+          chunkIndex: form.get("currentChunk") as string,
+        });
+        return response(statuses.shift() ?? 200);
+      },
+    };
+    return { transport, chunks };
+  };
+  const largeFile = new File([new Uint8Array(3000)], "large.bin", {
+    lastModified: 1,
+  });
+
+  it("sends the missing chunks under the stored upload id", async () => {
+    const store = new MemoryStateStore();
+    const first = recordingTransport(200, 503);
+    await expect(
+      new UploadChunkFile({
+        transport: first.transport,
+        chunkSize: 1000,
+        maxParallel: 1,
+        maxRetries: 0,
+        resume: { store },
+      }).uploadFile({ file: largeFile, uploadUrl: "/upload" })
+    ).rejects.toMatchObject({ status: 503 });
+
+    const second = recordingTransport();
+    await new UploadChunkFile({
+      transport: second.transport,
+      chunkSize: 1000,
+      maxParallel: 1,
+      resume: { store },
+    }).uploadFile({ file: largeFile, uploadUrl: "/upload" });
+
+    const { uploadId } = first.chunks[0];
+    expect(second.chunks).toEqual([
+      { uploadId, chunkIndex: "1" },
+      { uploadId, chunkIndex: "2" },
+    ]);
+  });
+
+  it("sends every chunk again under an upload id chosen by the caller", async () => {
+    const store = new MemoryStateStore();
+    const { transport, chunks } = recordingTransport();
+    const uploader = new UploadChunkFile({
+      transport,
+      chunkSize: 1000,
+      resume: { store },
+    });
+    await store.set(createFingerprint(largeFile, 1000, "/upload"), {
+      uploadId: "old",
+      uploadedChunks: [0, 1],
+    });
+
+    await uploader.uploadFile({
+      file: largeFile,
+      uploadUrl: "/upload",
+      uploadId: "new",
+    });
+
+    expect(chunks.map((chunk) => chunk.uploadId)).toEqual([
+      "new",
+      "new",
+      "new",
+    ]);
+  });
+
+  it("keeps uploads of the same file to different URLs apart", async () => {
+    const store = new MemoryStateStore();
+    const { transport, chunks } = recordingTransport();
+    const uploader = new UploadChunkFile({
+      transport,
+      chunkSize: 1000,
+      resume: { store },
+    });
+    await store.set(createFingerprint(largeFile, 1000, "/other"), {
+      uploadId: "other",
+      uploadedChunks: [0, 1, 2],
+    });
+
+    await uploader.uploadFile({ file: largeFile, uploadUrl: "/upload" });
+
+    expect(chunks).toHaveLength(3);
+  });
+
+  it("asks for the upload status again after a pause", async () => {
+    const { transport: chunkTransport, chunks } = recordingTransport();
+    const statusRequests: AbortSignal[] = [];
+    const transport: Transport = {
+      send: async (request) => {
+        if (!request.url.startsWith("/status")) {
+          return chunkTransport.send(request);
+        }
+        const signal = request.signal!;
+        statusRequests.push(signal);
+        if (statusRequests.length === 1) {
+          await new Promise((resolve) =>
+            signal.addEventListener("abort", resolve)
+          );
+          throw new UploadAbortedError("Upload aborted");
+        }
+        return {
+          status: 200,
+          responseText: JSON.stringify({ uploadedChunks: [0] }),
+          getHeader: () => null,
+        };
+      },
+    };
+    const task = new UploadChunkFile({
+      transport,
+      chunkSize: 1000,
+      resume: { store: new MemoryStateStore(), statusUrl: "/status" },
+    }).createUpload({ file: largeFile, uploadUrl: "/upload" });
+
+    await vi.waitFor(() => expect(statusRequests).toHaveLength(1));
+    task.pause({ abortInFlight: true });
+    await vi.waitFor(() => expect(task.state).toBe("paused"));
+    task.resume();
+
+    await expect(task.result).resolves.toBeDefined();
+    expect(statusRequests).toHaveLength(2);
+    expect(chunks.map((chunk) => chunk.chunkIndex)).toEqual(["1", "2"]);
+  });
+});
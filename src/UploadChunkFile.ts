@@ -0,0 +1,1391 @@
+import processInBatches from "./utils/processInBatches";
+import createFingerprint from "./utils/createFingerprint";
+import getDefaultTransport from "./transports/getDefaultTransport";
+import withTimeouts from "./transports/withTimeouts";
+import tusUpload from "./protocols/tus";
+import s3Upload from "./protocols/s3";
+import {
+  ChecksumMismatchError,
+  ResponseParseError,
+  UploadAbortedError,
+} from "./utils/Errors";
+import computeChecksum from "./integrity/computeChecksum";
+import computeFileChecksum from "./integrity/computeFileChecksum";
+import createHasher from "./integrity/createHasher";
+import createSource from "./sources/createSource";
+import validateFile from "./validation/validateFile";
+import createCompressor from "./compression/createCompressor";
+import compressedTypes from "./compression/compressedTypes";
+import matchesType from "./utils/matchesType";
+import createChunkCipher from "./encryption/createChunkCipher";
+import hashFile from "./dedupe/hashFile";
+import MemoryStateStore from "./stores/MemoryStateStore";
+import LocalStorageStateStore from "./stores/LocalStorageStateStore";
+import UploadTask from "./UploadTask";
+import ProgressTracker from "./utils/ProgressTracker";
+import Retrier from "./utils/Retrier";
+import AdaptiveChunkSize from "./utils/AdaptiveChunkSize";
+import cutChunks from "./utils/cutChunks";
+import sendWithHooks from "./utils/sendWithHooks";
+import runResumable from "./utils/runResumable";
+import createUploadId from "./utils/createUploadId";
+import resolvePayloadOptions from "./utils/resolvePayloadOptions";
+import applySchema from "./utils/applySchema";
+import encodeMetadata from "./utils/encodeMetadata";
+import isRetryableError from "./utils/isRetryableError";
+import createHttpError from "./utils/createHttpError";
+import toChunkError from "./utils/toChunkError";
+import BandwidthLimiter from "./utils/BandwidthLimiter";
+import type ConcurrencyLimiter from "./utils/ConcurrencyLimiter";
+import type {
+  AdaptiveChunkSizeOptions,
+  Compressor,
+  DedupeOptions,
+  DedupeResponse,
+  EncryptionOptions,
+  FileInfo,
+  FileSource,
+  HandshakeInitResponse,
+  HandshakeOptions,
+  IntegrityOptions,
+  Method,
+  MultipartOptions,
+  Options,
+  PayloadOptions,
+  RandomAccessSource,
+  RequestHooks,
+  ResponseType,
+  RetryPolicy,
+  S3Options,
+  StreamSource,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  TusOptions,
+  UploadContext,
+  UploadParams,
+  UploadResponse,
+  UploadSession,
+  UploadState,
+  UploadStateStore,
+  UploadType,
+  ValidationOptions,
+} from "./types";
+
+export default class UploadChunkFile {
+  private options: {
+    method: Method;
+    uploadType: UploadType;
+    metadataLocation: "field" | "header";
+    sendLastChunkLast: boolean;
+  };
+  private signal?: AbortSignal;
+  private payloadOptions: PayloadOptions;
+  private multipartOptions: MultipartOptions;
+  private retryPolicy: RetryPolicy;
+  private adaptiveOptions?: AdaptiveChunkSizeOptions;
+  private handshakeOptions?: HandshakeOptions;
+  private validationOptions?: ValidationOptions;
+  private compressionOptions?: {
+    compressor: Compressor;
+    location: "field" | "header";
+    skipTypes: string[];
+  };
+  private encryptionOptions?: EncryptionOptions;
+  private dedupeOptions?: DedupeOptions;
+  private resumeOptions?: {
+    store: UploadStateStore;
+    statusUrl?: string;
+  };
+  private tusOptions: TusOptions;
+  private s3Options?: S3Options;
+  private integrityOptions?: IntegrityOptions;
+  private transport: Transport;
+  private requestLimiter?: ConcurrencyLimiter;
+  private bandwidthLimiter: BandwidthLimiter;
+  private hooks: RequestHooks;
+  private withCredentials: boolean;
+  private responseOptions: {
+    responseType: ResponseType;
+    parseResponse?: (response: TransportResponse) => unknown;
+    validateResponse: (status: number, body: unknown) => boolean;
+  };
+
+  // Constructor to initialize options, signal, and default settings
+  constructor(options?: Options, signal?: AbortSignal) {
+    this.signal = signal;
+
+    this.options = {
+      method: options?.method ?? "POST", // Default HTTP method is POST
+      uploadType: options?.uploadType ?? "multiple", // Default upload type is multipart
+      metadataLocation: options?.metadataLocation ?? "field", // Send metadata as form fields by default
+      sendLastChunkLast: options?.sendLastChunkLast ?? false, // The last chunk may run alongside the others by default
+    };
+
+    this.handshakeOptions = options?.handshake; // Init and finalize requests around the chunks
+    this.validationOptions = options?.validate; // Files are not validated by default
+
+    this.transport = withTimeouts(getDefaultTransport(options?.transport), {
+      timeout: options?.timeout, // No limit on the request duration by default
+      stallTimeout: options?.stallTimeout, // No limit on the time without upload progress by default
+    }); // XMLHttpRequest in browsers, fetch elsewhere
+    this.requestLimiter = options?.requestLimiter; // Shared limit on in-flight requests across uploads
+    this.bandwidthLimiter =
+      options?.bandwidthLimiter ??
+      new BandwidthLimiter(options?.maxBytesPerSecond); // Shared byte rate across uploads, no limit by default
+    this.hooks = options?.hooks ?? {}; // Hooks around every request to the upload server
+    this.withCredentials = options?.withCredentials ?? false; // Do not send cookies cross-origin by default
+
+    // Set default values for reading upload responses
+    this.responseOptions = {
+      responseType: options?.responseType ?? "json", // Default response body is JSON
+      parseResponse: options?.parseResponse, // Replaces the responseType parsing
+      validateResponse:
+        options?.validateResponse ??
+        ((status) => status >= 200 && status < 300), // Any 2xx status is a success by default
+    };
+
+    // Set default values for multipart options
+    this.multipartOptions = {
+      chunkSize: options?.chunkSize || 5 * 1024 * 1024, // Default chunk size is 5MB
+      maxRetries: options?.maxRetries ?? 2, // Default max retries for failed uploads, 0 disables them
+      retryDelay: options?.retryDelay ?? 1000, // Default retry delay in milliseconds
+      maxParallel: options?.maxParallel || 1, // Default maximum parallel uploads
+    };
+
+    // Set default values for the retry policy, maxRetries and retryDelay stay as shorthands
+    const retryPolicy = options?.retryPolicy;
+    this.retryPolicy = {
+      maxAttempts:
+        retryPolicy?.maxAttempts ?? this.multipartOptions.maxRetries! + 1, // Attempts per chunk, the first one included
+      maxTotalRetries: retryPolicy?.maxTotalRetries ?? Infinity, // No limit across chunks by default
+      baseDelay: retryPolicy?.baseDelay ?? this.multipartOptions.retryDelay!, // Delay before the first retry
+      maxDelay: retryPolicy?.maxDelay ?? 30000, // Default maximum delay between attempts
+      jitter: retryPolicy?.jitter ?? "full", // Spread retries of parallel chunks apart
+      retryable: retryPolicy?.retryable ?? isRetryableError, // Network errors, 408, 429 and 5xx
+      respectRetryAfter: retryPolicy?.respectRetryAfter ?? true, // Wait at least as long as the server asks
+      onRetry: retryPolicy?.onRetry,
+    };
+
+    this.payloadOptions = resolvePayloadOptions(options?.payloadOptions); // Form field and header keys, shared with the server receiver
+
+    // Set adaptive chunk sizing options only when it is enabled
+    if (options?.adaptiveChunkSize) {
+      if (options.resume) {
+        throw new Error("adaptiveChunkSize cannot be combined with resume"); // Resume relies on fixed chunk boundaries
+      }
+      const adaptive =
+        options.adaptiveChunkSize === true ? {} : options.adaptiveChunkSize;
+      this.adaptiveOptions = {
+        initialSize: adaptive.initialSize ?? 256 * 1024, // Default probe chunk size is 256KB
+        minSize: adaptive.minSize ?? 256 * 1024, // Default smallest chunk size is 256KB
+        maxSize: adaptive.maxSize ?? 64 * 1024 * 1024, // Default largest chunk size is 64MB
+        targetDuration: adaptive.targetDuration ?? 3000, // Default target request duration in milliseconds
+      };
+    }
+
+    // Set default values for tus options
+    this.tusOptions = {
+      metadata: options?.tusOptions?.metadata ?? {}, // Extra Upload-Metadata entries
+      checksumAlgorithm: options?.tusOptions?.checksumAlgorithm, // No checksum by default
+      terminateOnAbort: options?.tusOptions?.terminateOnAbort ?? false, // Keep aborted uploads resumable by default
+    };
+
+    this.s3Options = options?.s3Options; // S3 callbacks are required for the 's3' upload type
+
+    // Set encryption options only when chunks are encrypted
+    if (options?.encryption) {
+      if (options.compression) {
+        throw new Error("compression cannot be combined with encryption"); // Encrypted bytes do not compress
+      }
+      if (
+        this.options.uploadType === "tus" ||
+        this.options.uploadType === "s3"
+      ) {
+        throw new Error(
+          `encryption cannot be combined with the '${this.options.uploadType}' upload type`
+        ); // Only the form uploads send the IV and auth tag of each chunk
+      }
+      if (options.dedupe) {
+        throw new Error("dedupe cannot be combined with encryption"); // The content hash would identify the plaintext
+      }
+      if (options.encryption.publicKey && options.resume) {
+        throw new Error(
+          "encryption with a publicKey cannot be combined with resume"
+        ); // Every upload gets a new key
+      }
+      this.encryptionOptions = options.encryption;
+    }
+
+    // Set compression options only when chunks are compressed
+    if (options?.compression) {
+      const compression =
+        typeof options.compression === "string" ||
+        "compress" in options.compression
+          ? { format: options.compression }
+          : options.compression;
+      const format = compression.format ?? "gzip"; // Default compression format
+      this.compressionOptions = {
+        compressor:
+          typeof format === "string" ? createCompressor(format) : format,
+        location: compression.location ?? "field", // Send the encoding as a form field by default
+        skipTypes: compression.skipTypes ?? compressedTypes, // Do not compress images, video, audio and archives
+      };
+    }
+
+    // Set integrity options only when checksums are enabled
+    if (options?.integrity) {
+      const integrity = options.integrity === true ? {} : options.integrity;
+      this.integrityOptions = {
+        algorithm: integrity.algorithm ?? "sha256", // Default checksum algorithm
+        location: integrity.location ?? "field", // Send checksums as form fields by default
+        fileChecksum: integrity.fileChecksum ?? false, // Whole-file checksum is opt-in
+        mismatchStatus: integrity.mismatchStatus ?? 460, // Status the server uses to report a mismatch
+      };
+    }
+
+    // Set dedupe options only when the content hash is looked up before uploading
+    if (options?.dedupe) {
+      this.dedupeOptions = {
+        url: options.dedupe.url,
+        algorithm: options.dedupe.algorithm ?? "sha256", // Default content hash algorithm
+        worker: options.dedupe.worker, // Hash on the calling thread by default
+      };
+    }
+
+    // Set resume options only when resumable uploads are enabled
+    if (options?.resume) {
+      const resume = options.resume === true ? {} : options.resume;
+      this.resumeOptions = {
+        store:
+          resume.store ??
+          (typeof localStorage !== "undefined"
+            ? new LocalStorageStateStore() // Survive page reloads in the browser
+            : new MemoryStateStore()), // Fallback for environments without localStorage
+        statusUrl: resume.statusUrl,
+      };
+    }
+  }
+
+  // Change the byte rate of running and later uploads, undefined lifts the limit
+  public setMaxBytesPerSecond(bytesPerSecond?: number) {
+    this.bandwidthLimiter.setLimit(bytesPerSecond ?? Infinity);
+  }
+
+  // Main method to upload a file
+  public async uploadFile<T>(
+    params: UploadParams<T>
+  ): Promise<UploadResponse<T>> {
+    return this.createUpload<T>(params).result;
+  }
+
+  // Start an upload and return a task to pause, resume or cancel it
+  public createUpload<T>({
+    onProgressChange,
+    onProgress,
+    onStateChange,
+    ...params
+  }: UploadParams<T>): UploadTask<T> {
+    const task = new UploadTask<T>(
+      (context) => this.upload<T>({ ...params, context }),
+      { signal: this.signal, onProgressChange, onProgress, onStateChange }
+    );
+    task.start();
+    return task;
+  }
+
+  // Run an upload with the state of its task
+  private async upload<T>({
+    file,
+    fileName,
+    uploadUrl,
+    uploadId,
+    metadata,
+    responseSchema,
+    context,
+  }: Omit<
+    UploadParams<T>,
+    "onProgressChange" | "onProgress" | "onStateChange"
+  > & {
+    context: UploadContext;
+  }): Promise<UploadResponse<T>> {
+    try {
+      context.onProgressChange?.(0); // Initialize progress to 0
+
+      const source = await createSource(file, fileName); // Normalize the input into a readable source
+      if (this.validationOptions) {
+        await validateFile(source, this.validationOptions); // Reject before the first request
+      }
+      const session = this.createSession(source, uploadId, metadata); // Identity and metadata of this upload
+      if (this.encryptionOptions) {
+        session.cipher = await createChunkCipher(this.encryptionOptions); // Key and IVs of this upload
+      }
+
+      // Skip the upload when the server already has the same content
+      const duplicate =
+        this.dedupeOptions && source.kind === "random"
+          ? await this.findDuplicate<T>({ source, session, context })
+          : undefined;
+      const result =
+        duplicate ??
+        (await this.uploadSource<T>({
+          source,
+          uploadUrl,
+          session,
+          context,
+        }));
+
+      // Narrow the final response at runtime when a schema is given
+      return responseSchema
+        ? { ...result, response: applySchema(responseSchema, result.response) }
+        : result;
+    } catch (error) {
+      this.handleUploadError(error, context); // Handle errors centrally
+    }
+  }
+
+  // Send the source with the configured upload type
+  private async uploadSource<T>({
+    source,
+    uploadUrl,
+    session,
+    context,
+  }: {
+    source: FileSource;
+    uploadUrl: string;
+    session: UploadSession;
+    context: UploadContext;
+  }): Promise<UploadResponse<T>> {
+    const uploadType = this.options.uploadType; // Determine upload type
+
+    // Check the upload type and call the appropriate method
+    if (uploadType === "multiple") {
+      return await (source.kind === "stream"
+        ? this.streamUpload<T>({ source, uploadUrl, session, context }) // Perform multipart upload of a stream
+        : this.multipartUpload<T>({ source, uploadUrl, session, context })); // Perform multipart upload
+    } else if (uploadType === "single") {
+      return await this.wholeFileUpload<T>({
+        source: this.requireRandomAccess(source),
+        uploadUrl,
+        session,
+        context,
+      }); // Perform single file upload
+    } else if (uploadType === "tus") {
+      const response = await tusUpload({
+        source: this.requireRandomAccess(source),
+        endpoint: uploadUrl,
+        tusOptions: this.tusOptions,
+        metadata: this.requireStringMetadata(session.metadata),
+        multipartOptions: this.multipartOptions,
+        retryPolicy: this.retryPolicy,
+        transport: { send: (request) => this.send(request, session) }, // The tus server is the upload server
+        requestLimiter: this.requestLimiter,
+        bandwidthLimiter: this.bandwidthLimiter,
+        context,
+      }); // Perform tus upload
+      return { response: response as T };
+    } else if (uploadType === "s3") {
+      if (!this.s3Options) {
+        throw new Error("s3Options is required for the 's3' upload type");
+      }
+      const response = await s3Upload({
+        source: this.requireRandomAccess(source),
+        s3Options: this.s3Options,
+        multipartOptions: this.multipartOptions,
+        retryPolicy: this.retryPolicy,
+        transport: this.transport,
+        requestLimiter: this.requestLimiter,
+        bandwidthLimiter: this.bandwidthLimiter,
+        context,
+      }); // Perform S3 multipart upload
+      return { response: response as T };
+    } else {
+      throw new Error(`Invalid upload type: ${uploadType}`); // Handle invalid upload type
+    }
+  }
+
+  // Method to handle multipart uploads
+  private async multipartUpload<T>({
+    source,
+    uploadUrl,
+    session,
+    context,
+  }: {
+    source: RandomAccessSource;
+    uploadUrl: string;
+    session: UploadSession;
+    context: UploadContext;
+  }) {
+    // Look up chunks acknowledged by a previous attempt of the same upload, the init request resumes its id
+    const fingerprint = this.resumeOptions
+      ? createFingerprint(source, this.multipartOptions.chunkSize!, uploadUrl)
+      : undefined;
+    const state = fingerprint
+      ? await this.getUploadState(source, fingerprint, session, context)
+      : undefined;
+    const resumedUploadId =
+      state && this.resumeSession(session, state.uploadId)
+        ? session.uploadId
+        : undefined;
+
+    // Negotiate the upload with the server before sending chunks
+    const init = this.handshakeOptions
+      ? await this.initUpload({ source, session, context })
+      : undefined;
+    const chunkSize = Math.min(
+      this.multipartOptions.chunkSize!,
+      init?.maxChunkSize ?? Infinity
+    );
+
+    // Calculate the number of chunks and chunk details
+    const { chunks, totalChunks } = this.calculateMultipartDetails(
+      source,
+      chunkSize
+    );
+    const chunkSizer = this.createChunkSizer(init?.maxChunkSize); // Chunks are cut as they are sent when sizes adapt
+    const tracker = new ProgressTracker(context, {
+      totalBytes: source.size,
+      totalChunks: chunkSizer ? undefined : totalChunks,
+    });
+    const retrier = new Retrier(this.retryPolicy);
+
+    const uploadedChunks = new Set([
+      ...(state && resumedUploadId === session.uploadId
+        ? state.uploadedChunks
+        : []), // The stored chunks belong to another upload when the server assigned a new id
+      ...(chunkSizer ? [] : init?.uploadedChunks ?? []), // Indexes only match fixed size chunks
+    ]);
+
+    // Only schedule the chunks that are still missing
+    let pendingChunks = chunks.filter(
+      (chunk) => !uploadedChunks.has(chunk.chunkIndex)
+    );
+    if (pendingChunks.length === 0 && !init) {
+      pendingChunks = chunks.slice(-1); // Re-send the last chunk so the server returns its final response
+    }
+
+    // Count acknowledged chunks as complete
+    chunks
+      .filter((chunk) => !pendingChunks.includes(chunk))
+      .forEach(({ chunkIndex, start, end }) =>
+        tracker.chunkSkipped(chunkIndex, end - start)
+      );
+
+    // Start hashing the whole file alongside the chunk uploads, it is sent with the final chunk
+    const contentHash = session.contentHash; // Computed by the dedupe step
+    const fileChecksum =
+      this.integrityOptions?.fileChecksum && !session.cipher
+        ? contentHash?.algorithm === this.integrityOptions.algorithm
+          ? Promise.resolve(contentHash!.digest)
+          : computeFileChecksum(
+              source,
+              this.integrityOptions.algorithm!,
+              chunkSize
+            )
+        : undefined;
+    fileChecksum?.catch(() => undefined); // Rejection is surfaced when the final chunk awaits it
+
+    // The server stores sealed chunks, so an encrypted upload hashes them in order as they are pulled.
+    // Chunks of an earlier attempt were sealed under another IV salt, a resumed upload sends no file checksum
+    const sealedHasher =
+      this.integrityOptions?.fileChecksum &&
+      session.cipher &&
+      pendingChunks.length === chunks.length
+        ? createHasher(this.integrityOptions.algorithm!)
+        : undefined;
+    let sealedChecksum: string | undefined;
+    async function* hashSealed(
+      items: Iterable<{ chunkIndex: number; start: number; end: number }>
+    ) {
+      for (const item of items) {
+        const sealed = await session.cipher!.encrypt(
+          await source.read(item.start, item.end),
+          item.chunkIndex
+        );
+        sealedHasher!.update(new Uint8Array(await sealed.body.arrayBuffer()));
+        if (item.end >= source.size) sealedChecksum = sealedHasher!.digest();
+        yield item;
+      }
+    }
+    const chunkRanges = chunkSizer
+      ? cutChunks(source.size, () => chunkSizer.current)
+      : pendingChunks; // Chunks with their byte range
+
+    // Function to upload a single part
+    const uploadPart = async (
+      {
+        chunkIndex,
+        start,
+        end,
+      }: {
+        chunkIndex: number;
+        start: number;
+        end: number;
+      },
+      attempt: number
+    ): Promise<UploadResponse<T>> => {
+      const chunk = await source.read(start, end); // Read the chunk only when it is about to be sent
+      const isLast = end >= source.size;
+      if (isLast && chunkSizer) tracker.setTotalChunks(chunkIndex + 1);
+
+      const checksum =
+        this.integrityOptions && !session.cipher
+          ? await computeChecksum(chunk, this.integrityOptions.algorithm!)
+          : undefined; // Checksum of the current chunk, encrypted chunks are hashed once sealed
+      const wholeFileChecksum = isLast
+        ? (await fileChecksum) ?? sealedChecksum
+        : undefined; // Checksum of the whole file
+      tracker.chunkStarted(chunkIndex);
+
+      const result = await this.measureRequest(chunkSizer, chunk.size, () =>
+        this.singleFileUpload<T>({
+          file: chunk,
+          uploadUrl,
+          session,
+          fileName: source.name, // Include file name in the request
+          currentChunk: chunkIndex, // Current chunk index
+          totalChunk: chunkSizer
+            ? isLast
+              ? chunkIndex + 1
+              : undefined // Total is only known at the last chunk when sizes adapt
+            : totalChunks,
+          lastChunk: chunkSizer ? isLast : undefined, // Tell the server to assemble the file
+          startOffset: start,
+          endOffset: end,
+          checksum,
+          fileChecksum: wholeFileChecksum,
+          attempt,
+          context,
+          onUploadProgress: (loaded) =>
+            tracker.chunkProgress(chunkIndex, loaded),
+        })
+      );
+      tracker.chunkDone(chunkIndex, chunk.size);
+
+      // Record the acknowledged chunk so a later attempt can skip it
+      if (fingerprint) {
+        uploadedChunks.add(chunkIndex);
+        await this.resumeOptions!.store.set(fingerprint, {
+          uploadId: session.uploadId,
+          uploadedChunks: [...uploadedChunks],
+        });
+      }
+
+      return result;
+    };
+
+    // Process chunks in batches
+    const result = await processInBatches(
+      sealedHasher ? hashSealed(chunkRanges) : chunkRanges,
+      uploadPart, // Function to process each chunk
+      {
+        ...this.multipartOptions,
+        limiter: this.requestLimiter,
+        bandwidth: {
+          limiter: this.bandwidthLimiter,
+          bytes: ({ start, end }) => end - start,
+        },
+        context,
+        retry: ({ chunkIndex }, error, attempt) =>
+          retrier.getDelay({ error, attempt, chunkIndex }),
+        onAttemptFailed: ({ chunkIndex }, willRetry) =>
+          tracker.chunkFailed(chunkIndex, willRetry),
+        wrapError: ({ chunkIndex }, error, attempt) =>
+          toChunkError(error, chunkIndex, attempt),
+        isFinal: this.options.sendLastChunkLast
+          ? ({ end }) => end >= source.size
+          : undefined,
+      }
+    );
+
+    // The finalize response replaces the response of the last chunk
+    const response = init
+      ? await this.finalizeUpload<T>({
+          source,
+          session,
+          totalChunks: chunkSizer ? tracker.progress.chunks.total : totalChunks,
+          fileChecksum: (await fileChecksum) ?? sealedChecksum,
+          context,
+        })
+      : result;
+
+    // The upload is complete, nothing is left to resume
+    if (fingerprint) {
+      await this.resumeOptions!.store.remove(fingerprint);
+    }
+    tracker.complete();
+
+    return response;
+  }
+
+  // Method to handle multipart uploads of streams, sending chunks as they fill
+  private async streamUpload<T>({
+    source,
+    uploadUrl,
+    session,
+    context,
+  }: {
+    source: StreamSource;
+    uploadUrl: string;
+    session: UploadSession;
+    context: UploadContext;
+  }) {
+    // Negotiate the upload with the server before sending chunks
+    const init = this.handshakeOptions
+      ? await this.initUpload({ source, session, context })
+      : undefined;
+
+    const chunkSizer = this.createChunkSizer(init?.maxChunkSize);
+    const chunkSize = chunkSizer
+      ? () => chunkSizer.current
+      : Math.min(
+          this.multipartOptions.chunkSize!,
+          init?.maxChunkSize ?? Infinity
+        );
+    const tracker = new ProgressTracker(context, { totalBytes: source.size });
+    const retrier = new Retrier(this.retryPolicy);
+
+    // Chunks are read in order, so the whole file checksum can be built along the way
+    const fileHasher = this.integrityOptions?.fileChecksum
+      ? createHasher(this.integrityOptions.algorithm!)
+      : undefined;
+    let fileChecksum: string | undefined;
+    let totalChunks = 0;
+
+    async function* readChunks() {
+      let chunkIndex = 0;
+      let start = 0;
+      for await (const { chunk, isLast } of source.chunks(chunkSize)) {
+        const sealed =
+          fileHasher && session.cipher
+            ? await session.cipher.encrypt(new Blob([chunk]), chunkIndex)
+            : undefined; // The server stores sealed chunks, hash the bytes it gets
+        fileHasher?.update(
+          sealed ? new Uint8Array(await sealed.body.arrayBuffer()) : chunk
+        );
+        if (isLast) {
+          fileChecksum = fileHasher?.digest(); // Digest once, the last chunk may be sent again
+          totalChunks = chunkIndex + 1;
+          tracker.setTotalChunks(totalChunks);
+        }
+        yield {
+          chunkIndex: chunkIndex++,
+          start,
+          chunk: new Blob([chunk]),
+          isLast,
+        };
+        start += chunk.length;
+      }
+    }
+
+    // Function to upload a single part
+    const uploadPart = async (
+      {
+        chunkIndex,
+        start,
+        chunk,
+        isLast,
+      }: {
+        chunkIndex: number;
+        start: number;
+        chunk: Blob;
+        isLast: boolean;
+      },
+      attempt: number
+    ): Promise<UploadResponse<T>> => {
+      const checksum =
+        this.integrityOptions && !session.cipher
+          ? await computeChecksum(chunk, this.integrityOptions.algorithm!)
+          : undefined; // Checksum of the current chunk, encrypted chunks are hashed once sealed
+      tracker.chunkStarted(chunkIndex);
+
+      const result = await this.measureRequest(chunkSizer, chunk.size, () =>
+        this.singleFileUpload<T>({
+          file: chunk,
+          uploadUrl,
+          session,
+          fileName: source.name, // Include file name in the request
+          currentChunk: chunkIndex, // Current chunk index
+          totalChunk: isLast ? chunkIndex + 1 : undefined, // Total is only known once the stream ends
+          lastChunk: isLast, // Tell the server to assemble the file
+          startOffset: start,
+          endOffset: start + chunk.size,
+          checksum,
+          fileChecksum: isLast ? fileChecksum : undefined, // Checksum of the whole file
+          attempt,
+          context,
+          onUploadProgress: (loaded) =>
+            tracker.chunkProgress(chunkIndex, loaded),
+        })
+      );
+      tracker.chunkDone(chunkIndex, chunk.size);
+      return result;
+    };
+
+    // Process chunks in batches while the stream is read
+    const result = await processInBatches(
+      readChunks(),
+      uploadPart, // Function to process each chunk
+      {
+        ...this.multipartOptions,
+        limiter: this.requestLimiter,
+        bandwidth: {
+          limiter: this.bandwidthLimiter,
+          bytes: ({ chunk }) => chunk.size,
+        },
+        context,
+        retry: ({ chunkIndex }, error, attempt) =>
+          retrier.getDelay({ error, attempt, chunkIndex }),
+        onAttemptFailed: ({ chunkIndex }, willRetry) =>
+          tracker.chunkFailed(chunkIndex, willRetry),
+        wrapError: ({ chunkIndex }, error, attempt) =>
+          toChunkError(error, chunkIndex, attempt),
+        isFinal: this.options.sendLastChunkLast
+          ? ({ isLast }) => isLast
+          : undefined,
+      }
+    );
+
+    // The finalize response replaces the response of the last chunk
+    const response = init
+      ? await this.finalizeUpload<T>({
+          source,
+          session,
+          totalChunks,
+          fileChecksum,
+          context,
+        })
+      : result;
+
+    tracker.complete();
+    return response;
+  }
+
+  // Method to upload the whole file in one request
+  private async wholeFileUpload<T>({
+    source,
+    uploadUrl,
+    session,
+    context,
+  }: {
+    source: RandomAccessSource;
+    uploadUrl: string;
+    session: UploadSession;
+    context: UploadContext;
+  }) {
+    const tracker = new ProgressTracker(context, {
+      totalBytes: source.size,
+      totalChunks: 1,
+    });
+    const body = await source.read(0, source.size);
+    const checksum =
+      this.integrityOptions && !session.cipher
+        ? await computeChecksum(body, this.integrityOptions.algorithm!)
+        : undefined; // Checksum of the whole file, an encrypted file is hashed once sealed
+
+    // Go through processInBatches so a pause that aborts the request sends it again
+    return processInBatches(
+      [body],
+      async (file, attempt) => {
+        tracker.chunkStarted(0);
+        const result = await this.singleFileUpload<T>({
+          file,
+          uploadUrl,
+          session,
+          checksum,
+          attempt,
+          context,
+          onUploadProgress: (loaded) => tracker.chunkProgress(0, loaded),
+        });
+        tracker.chunkDone(0, file.size);
+        return result;
+      },
+      {
+        ...this.multipartOptions,
+        bandwidth: {
+          limiter: this.bandwidthLimiter,
+          bytes: (file) => file.size,
+        },
+        limiter: this.requestLimiter,
+        context,
+        onAttemptFailed: (_, willRetry) => tracker.chunkFailed(0, willRetry),
+        wrapError: (_, error, attempt) => toChunkError(error, 0, attempt),
+      }
+    );
+  }
+
+  // Method to handle single file uploads
+  private async singleFileUpload<T>({
+    file,
+    uploadUrl,
+    session,
+    fileName,
+    currentChunk,
+    totalChunk,
+    lastChunk,
+    startOffset,
+    endOffset,
+    checksum,
+    fileChecksum,
+    attempt,
+    context,
+    onUploadProgress,
+  }: {
+    file: File | Blob;
+    uploadUrl: string;
+    session: UploadSession;
+    fileName?: string;
+    currentChunk?: number;
+    totalChunk?: number;
+    lastChunk?: boolean;
+    startOffset?: number;
+    endOffset?: number;
+    checksum?: string;
+    fileChecksum?: string;
+    attempt?: number;
+    context: UploadContext;
+    onUploadProgress?: (loaded: number) => void; // Bytes of the file sent so far
+  }): Promise<UploadResponse<T>> {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...session.headers,
+    }; // Set request header
+
+    // Create FormData payload
+    const formData = new FormData();
+    let body = await this.compressChunk(file, session, headers, formData);
+
+    // Encrypt the chunk, the IV and auth tag are sent along for the server to store
+    if (session.cipher) {
+      const encrypted = await session.cipher.encrypt(body, currentChunk ?? 0);
+      body = encrypted.body;
+      formData.append(this.payloadOptions.iv!, encrypted.iv);
+      formData.append(this.payloadOptions.authTag!, encrypted.authTag);
+      if (this.integrityOptions) {
+        checksum = await computeChecksum(
+          body,
+          this.integrityOptions.algorithm!
+        ); // A digest of the plaintext would identify the file
+      }
+    }
+    formData.append(this.payloadOptions.chunkName!, body); // Add file chunk
+
+    if (fileName) {
+      formData.append(this.payloadOptions.fileName!, fileName); // Add file name
+    }
+
+    if (currentChunk || currentChunk === 0) {
+      formData.append(
+        this.payloadOptions.currentChunk!,
+        currentChunk.toString()
+      ); // Add current chunk index
+    }
+
+    if (totalChunk) {
+      formData.append(this.payloadOptions.totalChunk!, totalChunk.toString()); // Add total chunks
+    }
+
+    if (lastChunk) {
+      formData.append(this.payloadOptions.lastChunk!, "true"); // Mark the final chunk
+    }
+
+    // Add the upload id, file details and metadata shared by every chunk
+    Object.entries(session.fields).forEach(([key, value]) =>
+      formData.append(key, value)
+    );
+
+    if (startOffset !== undefined && endOffset !== undefined) {
+      formData.append(this.payloadOptions.startOffset!, startOffset.toString()); // Add first byte of the chunk
+      formData.append(this.payloadOptions.endOffset!, endOffset.toString()); // Add byte after the last one of the chunk
+    }
+
+    // Add checksums as form fields or headers, under the same payload keys
+    const checksums = [
+      [this.payloadOptions.checksum!, checksum],
+      [this.payloadOptions.fileChecksum!, fileChecksum],
+    ];
+    checksums.forEach(([key, value]) => {
+      if (!key || !value) return;
+      if (this.integrityOptions?.location === "header") {
+        headers[key] = value;
+      } else {
+        formData.append(key, value);
+      }
+    });
+
+    // Send the request through the configured transport
+    const response = await this.send(
+      {
+        method: this.options.method,
+        url: uploadUrl,
+        headers,
+        body: formData,
+        signal: context.signal,
+        responseType:
+          this.responseOptions.responseType === "blob" ? "blob" : undefined,
+        chunkIndex: currentChunk,
+        attempt,
+        onUploadProgress: (loaded, total) =>
+          onUploadProgress?.((loaded / total) * file.size), // Scale the request progress to the file bytes
+      },
+      session
+    );
+
+    return this.handleResponse<T>(response);
+  }
+
+  // Compress the chunk and mark its encoding, progress stays in bytes of the original file
+  private async compressChunk(
+    file: Blob,
+    session: UploadSession,
+    headers: Record<string, string>,
+    formData: FormData
+  ) {
+    if (!session.compressor) return file;
+
+    const compressed = await session.compressor.compress(file);
+    if (compressed.size >= file.size) return file; // Send the chunk as it is when compression does not help
+
+    const key = this.payloadOptions.contentEncoding!;
+    if (this.compressionOptions!.location === "header") {
+      headers[key] = session.compressor.encoding;
+    } else {
+      formData.append(key, session.compressor.encoding);
+    }
+    return compressed;
+  }
+
+  // Build the identity and metadata sent with every chunk of an upload
+  private createSession(
+    source: FileSource,
+    fixedUploadId?: string,
+    metadata: Record<string, string | Blob> = {}
+  ): UploadSession {
+    const uploadId = fixedUploadId ?? createUploadId();
+    const fields: Record<string, string | Blob> = {
+      [this.payloadOptions.uploadId!]: uploadId,
+    };
+    if (source.size !== undefined) {
+      fields[this.payloadOptions.fileSize!] = source.size.toString(); // Unknown for streams without a length
+    }
+    if (source.type) {
+      fields[this.payloadOptions.fileType!] = source.type;
+    }
+    if (source.lastModified) {
+      fields[this.payloadOptions.lastModified!] =
+        source.lastModified.toString();
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.options.metadataLocation !== "header") {
+      Object.assign(fields, metadata);
+    } else if (Object.keys(metadata).length > 0) {
+      headers["Upload-Metadata"] = encodeMetadata(
+        this.requireStringMetadata(metadata)
+      ); // Same format as the tus Upload-Metadata header
+    }
+
+    // Already compressed types are sent as they are
+    const compressor =
+      this.compressionOptions &&
+      !matchesType(source.type, this.compressionOptions.skipTypes)
+        ? this.compressionOptions.compressor
+        : undefined;
+
+    return {
+      uploadId,
+      fixedUploadId: fixedUploadId !== undefined,
+      fileName: source.name,
+      fields,
+      headers,
+      metadata,
+      compressor,
+    };
+  }
+
+  // Announce the upload and learn its id, the largest chunk and the chunks the server already has
+  private async initUpload({
+    source,
+    session,
+    context,
+  }: {
+    source: FileSource;
+    session: UploadSession;
+    context: UploadContext;
+  }) {
+    const response = await this.sendResumable(
+      {
+        method: "POST",
+        url: this.handshakeOptions!.initUrl,
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          ...session.headers,
+        },
+        body: JSON.stringify({
+          ...this.stringFields(session.fields),
+          [this.payloadOptions.fileName!]: source.name,
+          [this.payloadOptions.chunkSize!]: this.multipartOptions.chunkSize,
+        }),
+      },
+      session,
+      context
+    );
+    const init = this.readJsonResponse<HandshakeInitResponse>(response); // The handshake is always JSON
+
+    // The server may assign its own id to the upload
+    if (init?.uploadId) this.setUploadId(session, init.uploadId);
+    session.fixedUploadId = true; // The server knows the upload by this id now
+
+    return init ?? {};
+  }
+
+  // Ask the server for the content hash of the file, a hit resolves the upload without sending chunks
+  private async findDuplicate<T>({
+    source,
+    session,
+    context,
+  }: {
+    source: RandomAccessSource;
+    session: UploadSession;
+    context: UploadContext;
+  }): Promise<UploadResponse<T> | undefined> {
+    const { url, algorithm, worker } = this.dedupeOptions!;
+    const digest = await runResumable(context, (signal) =>
+      hashFile(source, {
+        algorithm: algorithm!,
+        sliceSize: this.multipartOptions.chunkSize!,
+        worker,
+        signal,
+      })
+    );
+    session.contentHash = { algorithm: algorithm!, digest }; // Reused as the file checksum on a miss
+
+    let body: DedupeResponse | undefined;
+    try {
+      const response = await this.sendResumable(
+        {
+          method: "POST",
+          url,
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            ...session.headers,
+          },
+          body: JSON.stringify({
+            ...this.stringFields(session.fields),
+            [this.payloadOptions.fileName!]: source.name,
+            [this.payloadOptions.fileChecksum!]: digest,
+          }),
+        },
+        session,
+        context
+      );
+      body = this.readJsonResponse<DedupeResponse>(response);
+    } catch (error) {
+      if (context.cancelled) throw error;
+      return undefined; // A failed lookup falls back to uploading
+    }
+    if (body?.exists !== true) return undefined;
+
+    new ProgressTracker(context, {
+      totalBytes: source.size,
+      totalChunks: 0,
+    }).deduplicated();
+    return { response: body as T, deduplicated: true };
+  }
+
+  // Tell the server every chunk is acknowledged, its response is the upload response
+  private async finalizeUpload<T>({
+    source,
+    session,
+    totalChunks,
+    fileChecksum,
+    context,
+  }: {
+    source: FileSource;
+    session: UploadSession;
+    totalChunks: number | undefined;
+    fileChecksum: string | undefined;
+    context: UploadContext;
+  }) {
+    const response = await this.sendResumable(
+      {
+        method: "POST",
+        url: this.handshakeOptions!.finalizeUrl,
+        responseType:
+          this.responseOptions.responseType === "blob" ? "blob" : undefined,
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          ...session.headers,
+        },
+        body: JSON.stringify({
+          ...this.stringFields(session.fields),
+          [this.payloadOptions.fileName!]: source.name,
+          [this.payloadOptions.totalChunk!]: totalChunks,
+          [this.payloadOptions.fileChecksum!]: fileChecksum,
+        }),
+      },
+      session,
+      context
+    );
+
+    return this.handleResponse<T>(response);
+  }
+
+  // Only string fields fit in a JSON body, Blob metadata is sent with the chunks
+  private stringFields(fields: Record<string, string | Blob>) {
+    return Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => typeof value === "string")
+    );
+  }
+
+  // Blob metadata can only be sent as form fields
+  private requireStringMetadata(metadata: Record<string, string | Blob>) {
+    return Object.fromEntries(
+      Object.entries(metadata).map(([key, value]) => {
+        if (typeof value !== "string") {
+          throw new Error(
+            `Metadata '${key}' must be a string to be sent in a header`
+          );
+        }
+        return [key, value];
+      })
+    );
+  }
+
+  // Send a request of an upload to the upload server, with the request hooks and credentials
+  private send(request: TransportRequest, session: UploadSession) {
+    return sendWithHooks(
+      this.transport,
+      { withCredentials: this.withCredentials, ...request },
+      this.hooks,
+      { uploadId: session.uploadId, fileName: session.fileName }
+    );
+  }
+
+  // Send a request outside the chunk uploads, again after a pause aborted it, like chunks are
+  private sendResumable(
+    request: Omit<TransportRequest, "signal">,
+    session: UploadSession,
+    context: UploadContext
+  ): Promise<TransportResponse> {
+    return runResumable(context, (signal) =>
+      this.send({ ...request, signal }, session)
+    );
+  }
+
+  // Turn a transport response into an upload response or an error
+  private async handleResponse<T>(
+    response: TransportResponse
+  ): Promise<UploadResponse<T>> {
+    const { status } = response;
+    if (status === this.integrityOptions?.mismatchStatus) {
+      throw new ChecksumMismatchError("Checksum mismatch", { status }); // Retryable, the chunk is sent again
+    }
+
+    const body = await this.parseResponseBody(response);
+    if (!this.responseOptions.validateResponse(status, body)) {
+      throw createHttpError(response, body); // Reject on error status or an error envelope
+    }
+
+    return { response: body as T }; // Resolve with parsed response
+  }
+
+  // Read the response body with the custom parser or the responseType
+  private async parseResponseBody(response: TransportResponse) {
+    const { status, responseText, responseBlob } = response;
+    const { responseType, parseResponse } = this.responseOptions;
+    try {
+      if (parseResponse) return await parseResponse(response);
+
+      switch (responseType) {
+        case "none":
+          return undefined;
+        case "text":
+          return responseText;
+        case "blob":
+          return responseBlob;
+        default:
+          return responseText ? JSON.parse(responseText) : undefined; // Empty bodies, such as 204, have nothing to parse
+      }
+    } catch (error) {
+      if (status < 200 || status >= 300) {
+        return responseText; // Error bodies often have another format, keep the raw text
+      }
+      throw new ResponseParseError("Invalid response body", {
+        status,
+        responseText,
+        cause: error,
+      });
+    }
+  }
+
+  // Read a JSON response of a request outside the chunk uploads
+  private readJsonResponse<T>(response: TransportResponse): T | undefined {
+    const { status, responseText } = response;
+    if (status < 200 || status >= 300) {
+      throw createHttpError(response);
+    }
+
+    try {
+      return responseText ? JSON.parse(responseText) : undefined;
+    } catch (error) {
+      throw new ResponseParseError("Invalid JSON response", {
+        status,
+        responseText,
+        cause: error,
+      });
+    }
+  }
+
+  // Get the id and the chunks already uploaded of a resumable upload
+  private async getUploadState(
+    file: FileInfo,
+    fingerprint: string,
+    session: UploadSession,
+    context: UploadContext
+  ): Promise<
+    (Omit<UploadState, "uploadId"> & { uploadId?: string }) | undefined
+  > {
+    const { store, statusUrl } = this.resumeOptions!;
+    const stored = await store.get(fingerprint);
+
+    // The server is the source of truth for the chunks when it can report its own state
+    if (statusUrl) {
+      const status = await this.requestUploadStatus({
+        statusUrl,
+        file,
+        fingerprint,
+        session,
+        context,
+      });
+      return { ...status, uploadId: status.uploadId ?? stored?.uploadId };
+    }
+
+    return stored;
+  }
+
+  // Continue a stored upload under its id, its chunks belong to another upload when the id is fixed
+  private resumeSession(session: UploadSession, uploadId?: string) {
+    if (!uploadId || uploadId === session.uploadId) return true;
+    if (session.fixedUploadId) return false;
+    this.setUploadId(session, uploadId);
+    return true;
+  }
+
+  // Send the rest of the upload under another id
+  private setUploadId(session: UploadSession, uploadId: string) {
+    session.uploadId = uploadId;
+    session.fields[this.payloadOptions.uploadId!] = uploadId;
+  }
+
+  // Ask the server which chunks of the upload it already has
+  private async requestUploadStatus({
+    statusUrl,
+    file,
+    fingerprint,
+    session,
+    context,
+  }: {
+    statusUrl: string;
+    file: FileInfo;
+    fingerprint: string;
+    session: UploadSession;
+    context: UploadContext;
+  }) {
+    const query = new URLSearchParams({
+      fingerprint,
+      [this.payloadOptions.fileName!]: file.name,
+    });
+    const response = await this.sendResumable(
+      {
+        method: "GET",
+        url: `${statusUrl}${statusUrl.includes("?") ? "&" : "?"}${query}`,
+        headers: { Accept: "application/json" },
+      },
+      session,
+      context
+    );
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createHttpError(response);
+    }
+
+    // Accept either a plain array or an object with an uploadedChunks array and an optional uploadId
+    try {
+      const body = JSON.parse(response.responseText);
+      const chunks = Array.isArray(body) ? body : body?.uploadedChunks;
+      return {
+        uploadId:
+          typeof body?.uploadId === "string" ? body.uploadId : undefined,
+        uploadedChunks: Array.isArray(chunks) ? chunks.map(Number) : [],
+      };
+    } catch (error) {
+      throw new ResponseParseError("Invalid upload status response", {
+        status: response.status,
+        responseText: response.responseText,
+        cause: error,
+      });
+    }
+  }
+
+  // Calculate multipart upload details
+  private calculateMultipartDetails(file: FileInfo, chunkSize: number) {
+    const chunks = [...cutChunks(file.size, () => chunkSize)]; // Create an object for each chunk with its index and byte range
+
+    return { chunks, totalChunks: chunks.length }; // Return chunks and total chunks
+  }
+
+  // Adaptive chunks stay within the largest chunk the server accepts
+  private createChunkSizer(maxChunkSize?: number) {
+    if (!this.adaptiveOptions) return undefined;
+
+    const maxSize = Math.min(
+      this.adaptiveOptions.maxSize!,
+      maxChunkSize ?? Infinity
+    );
+    return new AdaptiveChunkSize({
+      ...this.adaptiveOptions,
+      maxSize,
+      minSize: Math.min(this.adaptiveOptions.minSize!, maxSize),
+    });
+  }
+
+  // Time a chunk request so the size of the next chunks can adapt to it
+  private async measureRequest<R>(
+    chunkSizer: AdaptiveChunkSize | undefined,
+    bytes: number,
+    request: () => Promise<R>
+  ) {
+    const startedAt = Date.now();
+    try {
+      const result = await request();
+      chunkSizer?.record(bytes, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (!(error instanceof UploadAbortedError)) chunkSizer?.recordFailure();
+      throw error;
+    }
+  }
+
+  // Only streams of a known length can be sent with the other upload types
+  private requireRandomAccess(source: FileSource) {
+    if (source.kind === "stream") {
+      throw new Error(
+        `Streaming sources are only supported by the 'multiple' upload type`
+      );
+    }
+    return source;
+  }
+
+  // Handle errors during upload
+  private handleUploadError(error: unknown, context: UploadContext): never {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new UploadAbortedError("Upload aborted by user"); // Handle abort error
+    }
+    context.onProgressChange?.(0); // Reset progress on error
+    throw error; // Re-throw the error
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import UploadQueue from "./UploadQueue";
+import MockUploadServer from "./testing/MockUploadServer";
+import { UploadAbortedError } from "./utils/Errors";
+import type { Transport } from "./types";
+
+// Transport whose requests only settle when they are aborted
+const hangingTransport = (): Transport => ({
+  send: ({ signal }) =>
+    new Promise((_, reject) =>
+      signal?.addEventListener("abort", () =>
+        reject(new UploadAbortedError("Upload aborted"))
+      )
+    ),
+});
+
+describe("UploadQueue", () => {
+  it("emits drained once when the last upload is cancelled", async () => {
+    const queue = new UploadQueue({
+      uploadUrl: "/upload",
+      options: { transport: hangingTransport() },
+    });
+    const drained = vi.fn();
+    queue.on("drained", drained);
+
+    const id = queue.add(new File(["hello world"], "hello.txt"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    queue.cancel(id);
+    expect(drained).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(drained).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(drained).toHaveBeenCalledTimes(1);
+  });
+
+  it("emits drained when the last pending item is cancelled", () => {
+    const queue = new UploadQueue({
+      uploadUrl: "/upload",
+      options: { transport: hangingTransport() },
+      autoStart: false,
+    });
+    const drained = vi.fn();
+    queue.on("drained", drained);
+
+    const first = queue.add(new File(["hello"], "hello.txt"));
+    const second = queue.add(new File(["world"], "world.txt"));
+    queue.cancel(first);
+    expect(drained).not.toHaveBeenCalled();
+
+    queue.cancel(second);
+    expect(drained).toHaveBeenCalledOnce();
+  });
+
+  it("reports the progress as unknown until the size of a stream is known", async () => {
+    const queue = new UploadQueue({
+      uploadUrl: "/upload",
+      options: { transport: new MockUploadServer(), chunkSize: 1024 },
+    });
+    const progress: (number | undefined)[] = [];
+    queue.on("progress", (value) => progress.push(value));
+
+    queue.add(new File([new Uint8Array(2048)], "file.bin"));
+    const streamId = queue.add(new Blob([new Uint8Array(2048)]).stream(), {
+      fileName: "stream.bin",
+    });
+    expect(queue.progress).toBeUndefined();
+
+    await new Promise<void>((resolve) => queue.on("drained", resolve));
+    expect(progress).toContain(undefined);
+    expect(queue.progress).toBe(100);
+    expect(queue.items.find((item) => item.id === streamId)?.size).toBe(2048);
+  });
+});
@@ -0,0 +1,286 @@
+import UploadChunkFile from "./UploadChunkFile";
+import type UploadTask from "./UploadTask";
+import ConcurrencyLimiter from "./utils/ConcurrencyLimiter";
+import { UploadAbortedError } from "./utils/Errors";
+import isRandomAccessSource from "./sources/isRandomAccessSource";
+import type {
+  Options,
+  UploadQueueEvents,
+  UploadQueueItem,
+  UploadQueueOptions,
+  UploadSource,
+} from "./types";
+
+type QueueEntry = UploadQueueItem & {
+  uploadUrl: string;
+  metadata?: Record<string, string | Blob>;
+  task?: UploadTask<unknown>;
+};
+
+// Upload many files with a global limit on in-flight chunk requests
+export default class UploadQueue {
+  private options: Options;
+  private uploader: UploadChunkFile;
+  private uploadUrl: string;
+  private maxConcurrentFiles: number;
+  private limiter: ConcurrencyLimiter;
+  private entries: QueueEntry[] = [];
+  private listeners: Map<
+    keyof UploadQueueEvents,
+    Set<UploadQueueEvents[keyof UploadQueueEvents]>
+  > = new Map();
+  private started: boolean;
+  private nextId = 1;
+
+  constructor({
+    options,
+    uploadUrl,
+    maxConcurrentFiles,
+    maxConcurrentChunks,
+    autoStart,
+  }: UploadQueueOptions) {
+    this.options = options ?? {};
+    this.uploadUrl = uploadUrl;
+    this.maxConcurrentFiles = maxConcurrentFiles ?? 2; // Default maximum files uploading at once
+    this.started = autoStart ?? true; // Start uploading as soon as files are added
+    this.limiter =
+      this.options.requestLimiter ??
+      new ConcurrencyLimiter(maxConcurrentChunks ?? 4); // Default maximum chunk requests across all files
+    this.uploader = new UploadChunkFile({
+      ...this.options,
+      requestLimiter: this.limiter,
+    });
+  }
+
+  // Change the byte rate shared by every file of the queue, undefined lifts the limit
+  public setMaxBytesPerSecond(bytesPerSecond?: number) {
+    this.uploader.setMaxBytesPerSecond(bytesPerSecond);
+  }
+
+  // Snapshot of every item in queue order
+  public get items(): UploadQueueItem[] {
+    return this.entries.map((entry) => this.toItem(entry));
+  }
+
+  // Overall progress weighted by file size, undefined while a file of unknown size is left to upload
+  public get progress() {
+    let totalBytes = 0;
+    let uploadedBytes = 0;
+    for (const entry of this.entries) {
+      if (entry.size === undefined) {
+        if (["pending", "uploading"].includes(entry.status)) return undefined;
+        continue; // Ended before its size was known
+      }
+      if (entry.status === "cancelled") continue;
+      totalBytes += entry.size;
+      uploadedBytes += (entry.size * entry.progress) / 100;
+    }
+    return totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0;
+  }
+
+  // Add a file to the queue and return its id
+  public add(
+    file: UploadSource,
+    {
+      fileName,
+      uploadUrl,
+      priority,
+      metadata,
+    }: {
+      fileName?: string;
+      uploadUrl?: string;
+      priority?: number;
+      metadata?: Record<string, string | Blob>;
+    } = {}
+  ) {
+    const entry: QueueEntry = {
+      id: `upload-${this.nextId++}`,
+      file,
+      fileName,
+      size: getSize(file),
+      priority: priority ?? 0, // Higher priority starts first
+      status: "pending",
+      progress: 0,
+      uploadUrl: uploadUrl ?? this.uploadUrl,
+      metadata,
+    };
+
+    this.entries.push(entry);
+    this.emit("itemAdded", this.toItem(entry));
+    this.next();
+    return entry.id;
+  }
+
+  // Start uploading when the queue was created with autoStart disabled
+  public start() {
+    this.started = true;
+    this.next();
+  }
+
+  // Cancel an item, aborting its upload when it is in progress
+  public cancel(id: string) {
+    const entry = this.find(id);
+    if (!entry || !["pending", "uploading"].includes(entry.status)) return;
+
+    entry.status = "cancelled";
+    entry.task?.cancel();
+    this.emit("itemCancelled", this.toItem(entry));
+    this.next();
+    if (!entry.task) this.emitIfDrained(); // A running task emits it once it settles
+  }
+
+  // Cancel an item and remove it from the queue
+  public remove(id: string) {
+    const entry = this.find(id);
+    if (!entry) return;
+
+    this.cancel(id);
+    this.entries = this.entries.filter((item) => item.id !== id);
+    this.emit("itemRemoved", this.toItem(entry));
+    this.emitProgress();
+  }
+
+  // Change the priority of an item that has not started yet
+  public setPriority(id: string, priority: number) {
+    const entry = this.find(id);
+    if (entry) entry.priority = priority;
+  }
+
+  // Move an item to another position, items with the same priority start in queue order
+  public move(id: string, index: number) {
+    const entry = this.find(id);
+    if (!entry) return;
+
+    this.entries = this.entries.filter((item) => item !== entry);
+    this.entries.splice(
+      Math.max(0, Math.min(index, this.entries.length)),
+      0,
+      entry
+    );
+  }
+
+  // Listen to a queue event, returns a function to stop listening
+  public on<K extends keyof UploadQueueEvents>(
+    event: K,
+    listener: UploadQueueEvents[K]
+  ) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  // Stop listening to a queue event
+  public off<K extends keyof UploadQueueEvents>(
+    event: K,
+    listener: UploadQueueEvents[K]
+  ) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  // Start pending items while there are free file slots
+  private next() {
+    if (!this.started) return;
+
+    const uploading = this.entries.filter(
+      (entry) => entry.status === "uploading"
+    ).length;
+    const pending = this.entries
+      .filter((entry) => entry.status === "pending")
+      .sort((a, b) => b.priority - a.priority); // Stable sort keeps queue order for equal priorities
+
+    pending
+      .slice(0, Math.max(this.maxConcurrentFiles - uploading, 0))
+      .forEach((entry) => this.run(entry));
+  }
+
+  // Emit drained once the last running item settles and nothing is left to start
+  private emitIfDrained() {
+    const busy = this.entries.some((entry) =>
+      ["pending", "uploading"].includes(entry.status)
+    );
+    if (!busy) this.emit("drained");
+  }
+
+  // Upload a single item as its own task
+  private async run(entry: QueueEntry) {
+    entry.status = "uploading";
+    entry.task = this.uploader.createUpload({
+      file: entry.file,
+      fileName: entry.fileName,
+      uploadUrl: entry.uploadUrl,
+      metadata: entry.metadata,
+      onProgress: ({ totalBytes }) => {
+        entry.size ??= totalBytes; // Known once a stream without a length ends
+      },
+      onProgressChange: (progress) => {
+        entry.progress = progress;
+        this.emit("itemProgress", this.toItem(entry));
+        this.emitProgress();
+      },
+    });
+    this.emit("itemStarted", this.toItem(entry));
+
+    try {
+      entry.response = await entry.task.result;
+      entry.status = "completed";
+      entry.progress = 100;
+      this.emit("itemCompleted", this.toItem(entry));
+    } catch (error) {
+      if (
+        error instanceof UploadAbortedError &&
+        entry.task?.state === "cancelled"
+      ) {
+        return; // Already reported by cancel
+      }
+      entry.status = "failed";
+      entry.error = error;
+      this.emit("itemFailed", this.toItem(entry));
+    } finally {
+      entry.task = undefined;
+      this.emitProgress();
+      this.next();
+      this.emitIfDrained();
+    }
+  }
+
+  private find(id: string) {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  // Strip internal state from an entry
+  private toItem({
+    uploadUrl: _uploadUrl,
+    metadata: _metadata,
+    task: _task,
+    ...item
+  }: QueueEntry): UploadQueueItem {
+    return { ...item };
+  }
+
+  private emitProgress() {
+    this.emit("progress", this.progress);
+  }
+
+  private emit<K extends keyof UploadQueueEvents>(
+    event: K,
+    ...args: Parameters<UploadQueueEvents[K]>
+  ) {
+    this.listeners
+      .get(event)
+      ?.forEach((listener) =>
+        (listener as (...args: Parameters<UploadQueueEvents[K]>) => void)(
+          ...args
+        )
+      );
+  }
+}
+
+// Size of the source when it is known without reading it
+function getSize(file: UploadSource) {
+  if (file instanceof Blob) return file.size;
+  if (file instanceof ArrayBuffer || ArrayBuffer.isView(file)) {
+    return file.byteLength;
+  }
+  if (isRandomAccessSource(file)) return file.size;
+  return undefined;
+}
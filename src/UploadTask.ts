@@ -0,0 +1,156 @@
+import { UploadAbortedError } from "./utils/Errors";
+import type {
+  OnProgressChangeHandler,
+  OnProgressHandler,
+  UploadContext,
+  UploadResponse,
+  UploadTaskState,
+} from "./types";
+
+// Handle to pause, resume or cancel a single upload
+export default class UploadTask<T> {
+  public readonly result: Promise<UploadResponse<T>>;
+  private currentState: UploadTaskState = "idle";
+  private controller = new AbortController(); // Aborted on cancel, or on pause when in-flight requests are dropped
+  private cancelled = false;
+  private pauseGate?: { promise: Promise<void>; resolve: () => void };
+  private upload: (context: UploadContext) => Promise<UploadResponse<T>>;
+  private onProgressChange?: OnProgressChangeHandler;
+  private onProgress?: OnProgressHandler;
+  private onStateChange?: (state: UploadTaskState) => void;
+  private resolveResult!: (response: UploadResponse<T>) => void;
+  private rejectResult!: (reason: unknown) => void;
+
+  constructor(
+    upload: (context: UploadContext) => Promise<UploadResponse<T>>,
+    {
+      signal,
+      onProgressChange,
+      onProgress,
+      onStateChange,
+    }: {
+      signal?: AbortSignal;
+      onProgressChange?: OnProgressChangeHandler;
+      onProgress?: OnProgressHandler;
+      onStateChange?: (state: UploadTaskState) => void;
+    } = {}
+  ) {
+    this.upload = upload;
+    this.onProgressChange = onProgressChange;
+    this.onProgress = onProgress;
+    this.onStateChange = onStateChange;
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+
+    // A shared signal cancels every task created with it
+    if (signal?.aborted) {
+      this.cancel();
+    } else {
+      signal?.addEventListener("abort", () => this.cancel(), { once: true });
+    }
+  }
+
+  public get state() {
+    return this.currentState;
+  }
+
+  // Start the upload, the result settles once it completes, fails or is cancelled
+  public start() {
+    if (this.currentState !== "idle") return this.result;
+
+    this.setState("uploading");
+    this.upload(this.createContext()).then(
+      (response) => {
+        this.setState("completed");
+        this.resolveResult(response);
+      },
+      (error) => {
+        this.setState(this.cancelled ? "cancelled" : "failed");
+        this.rejectResult(error);
+      }
+    );
+
+    return this.result;
+  }
+
+  // Stop sending new chunks, in-flight chunks finish unless abortInFlight is set
+  public pause({ abortInFlight = false }: { abortInFlight?: boolean } = {}) {
+    if (this.currentState !== "uploading" && this.currentState !== "retrying") {
+      return;
+    }
+
+    let resolve!: () => void;
+    const promise = new Promise<void>((done) => (resolve = done));
+    this.pauseGate = { promise, resolve };
+
+    if (abortInFlight) {
+      this.controller.abort(); // Dropped chunks are sent again on resume
+    }
+    this.setState("paused");
+  }
+
+  // Continue from the acknowledged chunks
+  public resume() {
+    if (this.currentState !== "paused") return;
+
+    if (this.controller.signal.aborted) {
+      this.controller = new AbortController(); // Fresh signal for the chunks sent again
+    }
+    this.releasePauseGate();
+    this.setState("uploading");
+  }
+
+  // Abort the upload for good, the result rejects with an UploadAbortedError
+  public cancel() {
+    if (["completed", "failed", "cancelled"].includes(this.currentState)) {
+      return;
+    }
+
+    this.cancelled = true;
+    this.controller.abort();
+    this.releasePauseGate(); // Waiting chunks see the aborted signal and stop
+
+    if (this.currentState === "idle") {
+      this.setState("cancelled");
+      this.rejectResult(new UploadAbortedError("Upload cancelled"));
+    }
+  }
+
+  // State shared with the upload while it runs
+  private createContext(): UploadContext {
+    const task = this; // Getters read the latest controller and flags
+
+    return {
+      get signal() {
+        return task.controller.signal;
+      },
+      get cancelled() {
+        return task.cancelled;
+      },
+      waitIfPaused: async () => {
+        while (this.pauseGate) await this.pauseGate.promise;
+      },
+      setRetrying: (retrying) => {
+        if (retrying && this.currentState === "uploading") {
+          this.setState("retrying");
+        } else if (!retrying && this.currentState === "retrying") {
+          this.setState("uploading");
+        }
+      },
+      onProgressChange: this.onProgressChange,
+      onProgress: this.onProgress,
+    };
+  }
+
+  private releasePauseGate() {
+    this.pauseGate?.resolve();
+    this.pauseGate = undefined;
+  }
+
+  private setState(state: UploadTaskState) {
+    this.currentState = state;
+    this.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,52 @@
+import { gunzipSync, inflateRawSync, inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import compressBytes from "./compressBytes";
+import deflateRaw from "./deflateRaw";
+
+const text = new TextEncoder().encode(
+  "chunk ".repeat(2000) + "upload-chunkfile sends files in chunks"
+);
+
+// Runs of repeated bytes between stretches that do not repeat, longer than the 32K window
+const mixed = Uint8Array.from({ length: 100000 }, (_, index) =>
+  index % 5000 < 2500 ? index % 7 : (index * 2654435761) >>> 24
+);
+
+describe("deflateRaw", () => {
+  it.each([
+    ["empty input", new Uint8Array(0)],
+    ["one byte", Uint8Array.of(42)],
+    ["repeated text", text],
+    ["mixed runs past the window", mixed],
+  ])("round-trips %s through zlib", (_, data) => {
+    expect(new Uint8Array(inflateRawSync(deflateRaw(data)))).toEqual(data);
+  });
+
+  it("makes repetitive input smaller", () => {
+    expect(deflateRaw(text).length).toBeLessThan(text.length / 10);
+  });
+});
+
+describe("compressBytes", () => {
+  it("writes the gzip format that gunzip reads", () => {
+    expect(new Uint8Array(gunzipSync(compressBytes(mixed, "gzip")))).toEqual(
+      mixed
+    );
+  });
+
+  it("writes the zlib wrapped deflate format of CompressionStream", () => {
+    expect(
+      new Uint8Array(inflateSync(compressBytes(mixed, "deflate")))
+    ).toEqual(mixed);
+  });
+
+  it("decompresses with DecompressionStream", async () => {
+    const stream = new Blob([compressBytes(text, "gzip") as BlobPart])
+      .stream()
+      .pipeThrough(new DecompressionStream("gzip"));
+
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(
+      text
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import deflateRaw from "./deflateRaw";
+import type { CompressionFormat } from "../types";
+
+// Lookup table for the reflected CRC-32 polynomial used by gzip
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? (value >>> 1) ^ 0xedb88320 : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+// Compress bytes without CompressionStream, in the same formats it produces
+export default function compressBytes(
+  data: Uint8Array,
+  format: CompressionFormat
+) {
+  const deflated = deflateRaw(data);
+
+  if (format === "gzip") {
+    const header = [0x1f, 0x8b, 0x08, 0, 0, 0, 0, 0, 0, 0xff]; // No name and no time, unknown OS
+    const trailer = [...uint32LE(crc32(data)), ...uint32LE(data.length)];
+    return concat(header, deflated, trailer);
+  }
+
+  const header = [0x78, 0x01]; // zlib header: 32K window, fastest level
+  return concat(header, deflated, uint32BE(adler32(data)));
+}
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array) {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function uint32LE(value: number) {
+  return [value, value >>> 8, value >>> 16, value >>> 24].map((v) => v & 0xff);
+}
+
+function uint32BE(value: number) {
+  return uint32LE(value).reverse();
+}
+
+function concat(header: number[], body: Uint8Array, trailer: number[]) {
+  const bytes = new Uint8Array(header.length + body.length + trailer.length);
+  bytes.set(header);
+  bytes.set(body, header.length);
+  bytes.set(trailer, header.length + body.length);
+  return bytes;
+}
@@ -0,0 +1,24 @@
+// Types that are compressed already, compressing them again costs time and saves nothing
+const compressedTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "image/heic",
+  "video/*",
+  "audio/*",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "application/x-gzip",
+  "application/vnd.rar",
+  "application/x-rar-compressed",
+  "application/x-7z-compressed",
+  "application/x-bzip2",
+  "application/x-xz",
+  "application/zstd",
+  "application/vnd.openxmlformats-officedocument.*",
+];
+
+export default compressedTypes;
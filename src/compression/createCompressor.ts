@@ -0,0 +1,21 @@
+import compressBytes from "./compressBytes";
+import type { CompressionFormat, Compressor } from "../types";
+
+// Compress chunks with CompressionStream where the runtime has it, the bundled encoder otherwise
+export default function createCompressor(
+  format: CompressionFormat
+): Compressor {
+  return {
+    encoding: format,
+    async compress(chunk) {
+      if (typeof CompressionStream !== "undefined") {
+        return new Response(
+          chunk.stream().pipeThrough(new CompressionStream(format))
+        ).blob();
+      }
+
+      const data = new Uint8Array(await chunk.arrayBuffer());
+      return new Blob([compressBytes(data, format)]);
+    },
+  };
+}
@@ -0,0 +1,159 @@
+const WINDOW_SIZE = 32768;
+const HASH_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64; // Candidates compared per position, trades ratio for speed
+
+// Base values and extra bits of the length and distance codes (RFC 1951, 3.2.5)
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+// Compress bytes into a raw DEFLATE stream, with LZ77 matching and the fixed Huffman codes
+export default function deflateRaw(data: Uint8Array) {
+  const writer = createBitWriter(data.length);
+  const head = new Int32Array(HASH_SIZE).fill(-1); // Last position of every hash
+  const previous = new Int32Array(WINDOW_SIZE); // Earlier position with the same hash
+
+  const hash = (position: number) =>
+    ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) &
+    (HASH_SIZE - 1);
+  const insert = (position: number) => {
+    const key = hash(position);
+    previous[position & (WINDOW_SIZE - 1)] = head[key];
+    head[key] = position;
+  };
+
+  writer.write(1, 1); // Final block
+  writer.write(1, 2); // Fixed Huffman codes
+
+  let position = 0;
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+      let candidate = head[hash(position)];
+      for (
+        let chain = MAX_CHAIN;
+        candidate >= 0 && position - candidate <= WINDOW_SIZE && chain > 0;
+        chain--
+      ) {
+        let length = 0;
+        while (
+          length < maxLength &&
+          data[candidate + length] === data[position + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = previous[candidate & (WINDOW_SIZE - 1)];
+      }
+      insert(position);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let offset = 1; offset < bestLength; offset++) {
+        if (position + offset + MIN_MATCH <= data.length) {
+          insert(position + offset); // Later matches can start inside this one
+        }
+      }
+      position += bestLength;
+    } else {
+      writeLiteral(writer, data[position]);
+      position++;
+    }
+  }
+
+  writeLiteral(writer, 256); // End of block
+  return writer.finish();
+}
+
+function writeLiteral(writer: BitWriter, symbol: number) {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number) {
+  const lengthCode = findCode(LENGTH_BASE, length);
+  writeLiteral(writer, 257 + lengthCode);
+  writer.write(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+  const distanceCode = findCode(DISTANCE_BASE, distance);
+  writer.writeCode(distanceCode, 5);
+  writer.write(
+    distance - DISTANCE_BASE[distanceCode],
+    DISTANCE_EXTRA[distanceCode]
+  );
+}
+
+// Index of the last base that is not larger than the value
+function findCode(bases: number[], value: number) {
+  let code = bases.length - 1;
+  while (bases[code] > value) code--;
+  return code;
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// Pack bits least significant first, as DEFLATE expects
+function createBitWriter(sizeHint: number) {
+  let bytes = new Uint8Array(Math.max(sizeHint + (sizeHint >> 3) + 16, 64));
+  let length = 0;
+  let buffer = 0;
+  let bufferedBits = 0;
+
+  const pushByte = (byte: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = byte;
+  };
+
+  return {
+    write(value: number, bits: number) {
+      buffer |= value << bufferedBits;
+      bufferedBits += bits;
+      while (bufferedBits >= 8) {
+        pushByte(buffer & 0xff);
+        buffer >>>= 8;
+        bufferedBits -= 8;
+      }
+    },
+    // Huffman codes are stored most significant bit first
+    writeCode(code: number, bits: number) {
+      let reversed = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        reversed = (reversed << 1) | ((code >> bit) & 1);
+      }
+      this.write(reversed, bits);
+    },
+    finish() {
+      if (bufferedBits > 0) pushByte(buffer & 0xff);
+      return bytes.subarray(0, length);
+    },
+  };
+}
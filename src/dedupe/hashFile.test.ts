@@ -0,0 +1,92 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import hashFile from "./hashFile";
+import createBlobSource from "../sources/createBlobSource";
+import UploadChunkFile from "../UploadChunkFile";
+import MockUploadServer from "../testing/MockUploadServer";
+import type { UploadProgress } from "../types";
+
+const bytes = Uint8Array.from({ length: 3000 }, (_, index) => index % 251);
+const digest = createHash("sha256").update(bytes).digest("hex");
+
+const createFile = () => new File([bytes], "data.bin");
+
+const createServer = (stored?: string) =>
+  new MockUploadServer({
+    dedupeUrl: "/upload/exists",
+    receiver: {
+      findDuplicate: (fileChecksum) =>
+        fileChecksum === stored ? { url: "/files/data.bin" } : undefined,
+    },
+  });
+
+const createUploader = (server: MockUploadServer) =>
+  new UploadChunkFile({
+    transport: server,
+    chunkSize: 1000,
+    retryDelay: 0,
+    maxRetries: 0,
+    dedupe: { url: "/upload/exists" },
+    integrity: { fileChecksum: true },
+  });
+
+describe("hashFile", () => {
+  it("hashes the file slice by slice", async () => {
+    await expect(
+      hashFile(createBlobSource(bytes), { algorithm: "sha256", sliceSize: 700 })
+    ).resolves.toBe(digest);
+  });
+});
+
+describe("deduplication", () => {
+  it("resolves a hit without sending chunks", async () => {
+    const server = createServer(digest);
+    const events: UploadProgress[] = [];
+
+    const result = await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: "/upload",
+      onProgress: (progress) => events.push(progress),
+    });
+
+    expect(result).toMatchObject({
+      response: { exists: true, url: "/files/data.bin" },
+      deduplicated: true,
+    });
+    expect(server.requests.map((request) => request.url)).toEqual([
+      "/upload/exists",
+    ]);
+    expect(server.requests[0].fields.fileChecksum).toBe(digest);
+    expect(events.at(-1)).toMatchObject({
+      percentage: 100,
+      deduplicated: true,
+    });
+  });
+
+  it("uploads on a miss and reuses the hash as the file checksum", async () => {
+    const server = createServer();
+
+    const result = await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+
+    expect(result.deduplicated).toBeUndefined();
+    expect(server.chunkRequests()).toHaveLength(3);
+    expect(server.chunkRequests(2)[0].fields.fileChecksum).toBe(digest);
+    expect(await server.readFile()).toEqual(bytes);
+  });
+
+  it("uploads when the lookup fails", async () => {
+    const server = createServer(digest);
+    server.inject({ type: "status", status: 500, url: "/upload/exists" });
+
+    const result = await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+
+    expect(result.deduplicated).toBeUndefined();
+    expect(server.chunkRequests()).toHaveLength(3);
+  });
+});
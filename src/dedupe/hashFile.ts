@@ -0,0 +1,56 @@
+import computeFileChecksum from "../integrity/computeFileChecksum";
+import { UploadAbortedError } from "../utils/Errors";
+import type {
+  ChecksumAlgorithm,
+  HashWorkerResponse,
+  RandomAccessSource,
+} from "../types";
+
+// Hash the whole file, in a worker when one is given so large files do not block the page
+export default async function hashFile(
+  source: RandomAccessSource,
+  {
+    algorithm,
+    sliceSize,
+    worker,
+    signal,
+  }: {
+    algorithm: ChecksumAlgorithm;
+    sliceSize: number;
+    worker?: (() => Worker) | undefined;
+    signal?: AbortSignal | undefined;
+  }
+) {
+  if (!worker || typeof Worker === "undefined") {
+    return computeFileChecksum(source, algorithm, sliceSize);
+  }
+
+  const blob = await source.read(0, source.size); // A File slice, its bytes are read in the worker
+  const hashWorker = worker();
+  const id = Math.random().toString(36).slice(2);
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const onAbort = () => reject(new UploadAbortedError("Upload aborted"));
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      hashWorker.addEventListener(
+        "message",
+        ({ data }: MessageEvent<HashWorkerResponse>) => {
+          if (data.id !== id) return;
+          signal?.removeEventListener("abort", onAbort);
+          if (data.digest !== undefined) resolve(data.digest);
+          else reject(new Error(data.error ?? "Hash worker failed"));
+        }
+      );
+      hashWorker.addEventListener("error", (event) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new Error(event.message || "Hash worker failed"));
+      });
+      hashWorker.postMessage({ id, blob, algorithm, sliceSize });
+    });
+  } finally {
+    hashWorker.terminate(); // One worker per file, it holds no state
+  }
+}
@@ -0,0 +1,32 @@
+import createHasher from "../integrity/createHasher";
+import type { HashWorkerRequest, HashWorkerResponse } from "../types";
+
+type WorkerScope = {
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<HashWorkerRequest>) => void
+  ): void;
+  postMessage(message: HashWorkerResponse): void;
+};
+
+// Answer the hash requests of the dedupe step, call it from the worker script
+export default function installHashWorker(
+  scope = globalThis as unknown as WorkerScope
+) {
+  scope.addEventListener("message", async ({ data }) => {
+    const { id, blob, algorithm, sliceSize } = data;
+    try {
+      const hasher = createHasher(algorithm);
+      for (let offset = 0; offset < blob.size; offset += sliceSize) {
+        const slice = blob.slice(offset, offset + sliceSize);
+        hasher.update(new Uint8Array(await slice.arrayBuffer()));
+      }
+      scope.postMessage({ id, digest: hasher.digest() });
+    } catch (error) {
+      scope.postMessage({
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import createChunkCipher from "./createChunkCipher";
+import decryptFile from "./decryptFile";
+import { IV_LENGTH, MAGIC } from "./format";
+import UploadChunkFile from "../UploadChunkFile";
+import MockUploadServer from "../testing/MockUploadServer";
+import computeChecksum from "../integrity/computeChecksum";
+
+const createKey = () =>
+  crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+// Manifest JSON of an encrypted first chunk
+async function readManifest(body: Blob) {
+  const bytes = new Uint8Array(await body.arrayBuffer());
+  const length = new DataView(bytes.buffer).getUint32(MAGIC.length + 1);
+  const start = MAGIC.length + 5;
+  return JSON.parse(
+    new TextDecoder().decode(bytes.subarray(start, start + length))
+  );
+}
+
+describe("createChunkCipher", () => {
+  it("starts the IVs of every upload with a random salt stored in the header", async () => {
+    const key = await createKey();
+    const first = await (
+      await createChunkCipher({ key })
+    ).encrypt(new Blob(["hello"]), 0);
+    const second = await (
+      await createChunkCipher({ key })
+    ).encrypt(new Blob(["hello"]), 0);
+
+    expect(first.iv).not.toBe(second.iv);
+    const { ivSalt } = await readManifest(first.body);
+    const iv = Uint8Array.from(atob(first.iv), (char) => char.charCodeAt(0));
+    expect(iv).toHaveLength(IV_LENGTH);
+    expect(btoa(String.fromCharCode(...iv.subarray(0, IV_LENGTH - 4)))).toBe(
+      ivSalt
+    );
+  });
+
+  it("encrypts chunks that decryptFile restores in order", async () => {
+    const key = await createKey();
+    const cipher = await createChunkCipher({ key });
+    const chunks = await Promise.all(
+      ["hello ", "world"].map((text, index) =>
+        cipher.encrypt(new Blob([text]), index)
+      )
+    );
+
+    const file = await decryptFile(new Blob(chunks.map(({ body }) => body)), {
+      key,
+    });
+    await expect(file.text()).resolves.toBe("hello world");
+  });
+});
+
+describe("UploadChunkFile encryption", () => {
+  it("sends checksums of the sealed bytes and no digest of the plaintext", async () => {
+    const key = await createKey();
+    const text = "0123456789".repeat(300);
+    const server = new MockUploadServer();
+    const uploader = new UploadChunkFile({
+      transport: server,
+      chunkSize: 1000,
+      encryption: { key },
+      integrity: { fileChecksum: true },
+    });
+
+    await uploader.uploadFile({
+      file: new File([text], "secret.txt"),
+      uploadUrl: "/upload",
+    });
+
+    const plaintextDigests = await Promise.all(
+      [text, text.slice(0, 1000), text.slice(1000, 2000), text.slice(2000)].map(
+        (part) => computeChecksum(new Blob([part]), "sha256")
+      )
+    );
+    const sent = server.requests.flatMap((request) => [
+      ...Object.values(request.fields),
+      ...Object.values(request.headers),
+    ]);
+    plaintextDigests.forEach((digest) => expect(sent).not.toContain(digest));
+
+    const requests = server.chunkRequests();
+    for (const request of requests) {
+      expect(request.fields.checksum).toBe(
+        await computeChecksum(new Blob([request.chunk! as BlobPart]), "sha256")
+      );
+    }
+    const stored = new Blob([(await server.readFile()) as BlobPart]);
+    expect(requests[requests.length - 1].fields.fileChecksum).toBe(
+      await computeChecksum(stored, "sha256")
+    );
+    await expect((await decryptFile(stored, { key })).text()).resolves.toBe(
+      text
+    );
+  });
+
+  it("cannot be combined with dedupe", async () => {
+    const key = await createKey();
+    expect(
+      () =>
+        new UploadChunkFile({
+          encryption: { key },
+          dedupe: { url: "/upload/exists" },
+        })
+    ).toThrow("dedupe cannot be combined with encryption");
+  });
+
+  it.each(["tus", "s3"] as const)(
+    "cannot be combined with the '%s' upload type",
+    async (uploadType) => {
+      const key = await createKey();
+      expect(
+        () => new UploadChunkFile({ uploadType, encryption: { key } })
+      ).toThrow(`encryption cannot be combined with the '${uploadType}'`);
+    }
+  );
+});
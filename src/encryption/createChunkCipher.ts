@@ -0,0 +1,93 @@
+import toBase64 from "../utils/toBase64";
+import {
+  chunkIndexData,
+  IV_LENGTH,
+  MAGIC,
+  TAG_LENGTH,
+  VERSION,
+} from "./format";
+import type {
+  ChunkCipher,
+  EncryptionManifest,
+  EncryptionOptions,
+} from "../types";
+
+// Encrypt the chunks of one upload with AES-GCM, each under its own IV
+export default async function createChunkCipher(
+  options: EncryptionOptions
+): Promise<ChunkCipher> {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("Encryption requires WebCrypto");
+  }
+
+  // IVs start with a random salt of this upload, so a key shared by several uploads never repeats one
+  const prefix = crypto.getRandomValues(new Uint8Array(IV_LENGTH - 4));
+  const { key, manifest } = await resolveKey(options);
+  const header = createHeader({ ...manifest, ivSalt: toBase64(prefix) });
+
+  return {
+    async encrypt(chunk, chunkIndex) {
+      const iv = new Uint8Array(IV_LENGTH);
+      iv.set(prefix);
+      new DataView(iv.buffer).setUint32(IV_LENGTH - 4, chunkIndex); // Unique per chunk of the upload
+
+      const sealed = new Uint8Array(
+        await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv, additionalData: chunkIndexData(chunkIndex) },
+          key,
+          await chunk.arrayBuffer()
+        )
+      );
+      const length = new Uint8Array(4);
+      new DataView(length.buffer).setUint32(0, sealed.length);
+
+      return {
+        body: new Blob([
+          ...(chunkIndex === 0 ? [header] : []), // The first chunk starts the file
+          length,
+          iv,
+          sealed,
+        ]),
+        iv: toBase64(iv),
+        authTag: toBase64(sealed.subarray(sealed.length - TAG_LENGTH)),
+      };
+    },
+  };
+}
+
+// Use the caller's key, or a new key wrapped with the caller's public key
+async function resolveKey({ key, publicKey }: EncryptionOptions) {
+  if (key) {
+    return { key, manifest: { algorithm: "AES-GCM" } as EncryptionManifest };
+  }
+  if (!publicKey) {
+    throw new Error("encryption requires a key or a publicKey");
+  }
+
+  const fileKey = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt"]
+  );
+  const wrappedKey = await crypto.subtle.wrapKey("raw", fileKey, publicKey, {
+    name: "RSA-OAEP",
+  });
+  return {
+    key: fileKey,
+    manifest: {
+      algorithm: "AES-GCM",
+      keyWrap: "RSA-OAEP",
+      wrappedKey: toBase64(wrappedKey),
+    } as EncryptionManifest,
+  };
+}
+
+function createHeader(manifest: EncryptionManifest) {
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(MAGIC.length + 1 + 4 + json.length);
+  header.set(new TextEncoder().encode(MAGIC));
+  header[MAGIC.length] = VERSION;
+  new DataView(header.buffer).setUint32(MAGIC.length + 1, json.length);
+  header.set(json, MAGIC.length + 5);
+  return header;
+}
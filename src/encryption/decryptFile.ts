@@ -0,0 +1,71 @@
+import { chunkIndexData, IV_LENGTH, MAGIC, VERSION } from "./format";
+import type { EncryptionManifest } from "../types";
+
+// Decrypt a file assembled from encrypted chunks, with the AES-GCM key or the private key that unwraps it
+export default async function decryptFile(
+  file: Blob,
+  { key, privateKey }: { key?: CryptoKey; privateKey?: CryptoKey }
+): Promise<Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (
+    new TextDecoder().decode(bytes.subarray(0, MAGIC.length)) !== MAGIC ||
+    bytes[MAGIC.length] !== VERSION
+  ) {
+    throw new Error("Not an encrypted upload");
+  }
+  const manifestLength = view.getUint32(MAGIC.length + 1);
+  let offset = MAGIC.length + 5;
+  const manifest: EncryptionManifest = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(offset, offset + manifestLength))
+  );
+  offset += manifestLength;
+
+  const fileKey = await resolveKey(manifest, key, privateKey);
+
+  // Records follow each other in chunk order
+  const parts: ArrayBuffer[] = [];
+  for (let chunkIndex = 0; offset < bytes.length; chunkIndex++) {
+    const sealedLength = view.getUint32(offset);
+    const iv = bytes.subarray(offset + 4, offset + 4 + IV_LENGTH);
+    const start = offset + 4 + IV_LENGTH;
+    if (start + sealedLength > bytes.length) {
+      throw new Error(`Encrypted chunk ${chunkIndex} is truncated`);
+    }
+    parts.push(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv, additionalData: chunkIndexData(chunkIndex) },
+        fileKey,
+        bytes.subarray(start, start + sealedLength)
+      )
+    );
+    offset = start + sealedLength;
+  }
+
+  return new Blob(parts);
+}
+
+async function resolveKey(
+  manifest: EncryptionManifest,
+  key?: CryptoKey,
+  privateKey?: CryptoKey
+) {
+  if (!manifest.wrappedKey) {
+    if (!key) throw new Error("decryptFile requires the key of the upload");
+    return key;
+  }
+  if (!privateKey) {
+    throw new Error("decryptFile requires the private key of the upload");
+  }
+
+  return crypto.subtle.unwrapKey(
+    "raw",
+    Uint8Array.from(atob(manifest.wrappedKey), (char) => char.charCodeAt(0)),
+    privateKey,
+    { name: "RSA-OAEP" },
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"]
+  );
+}
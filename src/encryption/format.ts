@@ -0,0 +1,14 @@
+// Layout of an encrypted file: the header, sent with the first chunk, then one record per chunk
+//   header: "UCFE" | version (1 byte) | manifest length (uint32) | manifest JSON
+//   record: sealed length (uint32) | IV (12 bytes) | ciphertext and auth tag
+export const MAGIC = "UCFE";
+export const VERSION = 1;
+export const IV_LENGTH = 12;
+export const TAG_LENGTH = 16;
+
+// The chunk index is authenticated, so records cannot be reordered unnoticed
+export function chunkIndexData(chunkIndex: number) {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, chunkIndex);
+  return data;
+}
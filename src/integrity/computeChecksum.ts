@@ -0,0 +1,19 @@
+import createHasher from "./createHasher";
+import toHex from "./toHex";
+import type { ChecksumAlgorithm } from "../types";
+
+// Compute the digest of a single chunk, through WebCrypto when it is available
+export default async function computeChecksum(
+  blob: Blob,
+  algorithm: ChecksumAlgorithm
+) {
+  const data = await blob.arrayBuffer();
+
+  if (algorithm === "sha256" && globalThis.crypto?.subtle) {
+    return toHex(await crypto.subtle.digest("SHA-256", data));
+  }
+
+  const hasher = createHasher(algorithm);
+  hasher.update(new Uint8Array(data));
+  return hasher.digest();
+}
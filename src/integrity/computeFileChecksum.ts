@@ -0,0 +1,18 @@
+import createHasher from "./createHasher";
+import type { ChecksumAlgorithm, RandomAccessSource } from "../types";
+
+// Compute the digest of a whole file slice by slice, without loading it into memory
+export default async function computeFileChecksum(
+  source: RandomAccessSource,
+  algorithm: ChecksumAlgorithm,
+  sliceSize: number
+) {
+  const hasher = createHasher(algorithm);
+
+  for (let offset = 0; offset < source.size; offset += sliceSize) {
+    const slice = await source.read(offset, offset + sliceSize);
+    hasher.update(new Uint8Array(await slice.arrayBuffer()));
+  }
+
+  return hasher.digest();
+}
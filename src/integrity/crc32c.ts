@@ -0,0 +1,26 @@
+import type { ChecksumHasher } from "../types";
+
+// Lookup table for the reflected Castagnoli polynomial
+const table = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? (value >>> 1) ^ 0x82f63b78 : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+// Incremental CRC32C (Castagnoli) checksum
+export default function createCrc32cHasher(): ChecksumHasher {
+  let crc = 0xffffffff;
+
+  return {
+    update(data) {
+      for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+      }
+    },
+    digest() {
+      return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0");
+    },
+  };
+}
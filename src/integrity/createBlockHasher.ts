@@ -0,0 +1,56 @@
+import type { ChecksumHasher } from "../types";
+
+// Shared buffering and padding for the 64 byte block digests (MD5 and SHA-256)
+export default function createBlockHasher({
+  processBlock,
+  littleEndian,
+  output,
+}: {
+  processBlock: (block: DataView) => void;
+  littleEndian: boolean;
+  output: () => string;
+}): ChecksumHasher {
+  const buffer = new Uint8Array(64);
+  const view = new DataView(buffer.buffer);
+  let buffered = 0; // Bytes waiting for a full block
+  let length = 0; // Total bytes hashed
+
+  const update = (data: Uint8Array) => {
+    length += data.length;
+
+    for (let offset = 0; offset < data.length; ) {
+      const size = Math.min(64 - buffered, data.length - offset);
+      buffer.set(data.subarray(offset, offset + size), buffered);
+      buffered += size;
+      offset += size;
+
+      if (buffered === 64) {
+        processBlock(view);
+        buffered = 0;
+      }
+    }
+  };
+
+  const digest = () => {
+    const bitLength = length * 8;
+
+    // Pad with a single 1 bit, zeros, and the message length in the last 8 bytes
+    buffer[buffered++] = 0x80;
+    if (buffered > 56) {
+      buffer.fill(0, buffered);
+      processBlock(view);
+      buffered = 0;
+    }
+    buffer.fill(0, buffered);
+
+    const high = Math.floor(bitLength / 2 ** 32);
+    const low = bitLength >>> 0;
+    view.setUint32(56, littleEndian ? low : high, littleEndian);
+    view.setUint32(60, littleEndian ? high : low, littleEndian);
+    processBlock(view);
+
+    return output();
+  };
+
+  return { update, digest };
+}
@@ -0,0 +1,71 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import createHasher from "./createHasher";
+import computeChecksum from "./computeChecksum";
+import type { ChecksumAlgorithm } from "../types";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const digest = (algorithm: ChecksumAlgorithm, ...parts: Uint8Array[]) => {
+  const hasher = createHasher(algorithm);
+  parts.forEach((part) => hasher.update(part));
+  return hasher.digest();
+};
+
+// Crosses the 64 byte blocks and the 56 byte padding boundary at uneven offsets
+const bytes = Uint8Array.from(
+  { length: 1000 },
+  (_, index) => (index * 7) % 256
+);
+
+describe("createHasher", () => {
+  it.each([
+    ["", "d41d8cd98f00b204e9800998ecf8427e"],
+    ["abc", "900150983cd24fb0d6963f7d28e17f72"],
+    [
+      "The quick brown fox jumps over the lazy dog",
+      "9e107d9d372bb6826bd81d3542a419d6",
+    ],
+  ])("computes the MD5 of %j", (input, expected) => {
+    expect(digest("md5", text(input))).toBe(expected);
+  });
+
+  it.each([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    ],
+  ])("computes the SHA-256 of %j", (input, expected) => {
+    expect(digest("sha256", text(input))).toBe(expected);
+  });
+
+  it.each([
+    ["123456789", text("123456789"), "e3069283"],
+    ["32 zero bytes", new Uint8Array(32), "8a9136aa"],
+    ["32 0xff bytes", new Uint8Array(32).fill(0xff), "62a8ab43"],
+  ])("computes the CRC32C of %s", (_, input, expected) => {
+    expect(digest("crc32c", input)).toBe(expected);
+  });
+
+  it.each(["md5", "sha256"] as const)(
+    "gives the %s of node:crypto when fed in uneven parts",
+    (algorithm) => {
+      const parts = [0, 1, 63, 64, 120, 500, 1000];
+      const slices = parts
+        .slice(1)
+        .map((end, index) => bytes.subarray(parts[index], end));
+
+      expect(digest(algorithm, ...slices)).toBe(
+        createHash(algorithm).update(bytes).digest("hex")
+      );
+    }
+  );
+
+  it("matches the WebCrypto SHA-256 used for single chunks", async () => {
+    await expect(computeChecksum(new Blob([bytes]), "sha256")).resolves.toBe(
+      digest("sha256", bytes)
+    );
+  });
+});
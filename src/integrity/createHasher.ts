@@ -0,0 +1,15 @@
+import createCrc32cHasher from "./crc32c";
+import createMd5Hasher from "./md5";
+import createSha256Hasher from "./sha256";
+import type { ChecksumAlgorithm, ChecksumHasher } from "../types";
+
+const hasherFactories: Record<ChecksumAlgorithm, () => ChecksumHasher> = {
+  sha256: createSha256Hasher,
+  crc32c: createCrc32cHasher,
+  md5: createMd5Hasher,
+};
+
+// Create an incremental hasher for the given algorithm
+export default function createHasher(algorithm: ChecksumAlgorithm) {
+  return hasherFactories[algorithm]();
+}
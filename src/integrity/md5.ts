@@ -0,0 +1,69 @@
+import createBlockHasher from "./createBlockHasher";
+import toHex from "./toHex";
+
+// Per round shift amounts
+const shifts = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+
+// Constants derived from the sine function, as defined in RFC 1321
+const constants = Array.from(
+  { length: 64 },
+  (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0
+);
+
+// Incremental MD5 digest
+export default function createMd5Hasher() {
+  const state = new Uint32Array([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476,
+  ]);
+  const words = new Uint32Array(16);
+
+  const processBlock = (block: DataView) => {
+    for (let i = 0; i < 16; i++) words[i] = block.getUint32(i * 4, true);
+
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      f = (f + a + constants[i] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << shifts[i]) | (f >>> (32 - shifts[i])))) >>> 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+  };
+
+  return createBlockHasher({
+    processBlock,
+    littleEndian: true,
+    output: () => {
+      const bytes = new Uint8Array(16);
+      const view = new DataView(bytes.buffer);
+      state.forEach((value, index) => view.setUint32(index * 4, value, true));
+      return toHex(bytes);
+    },
+  });
+}
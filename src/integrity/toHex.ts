@@ -0,0 +1,6 @@
+// Format digest bytes as a lowercase hex string
+export default function toHex(bytes: ArrayBuffer | Uint8Array) {
+  return Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
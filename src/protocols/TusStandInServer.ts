@@ -0,0 +1,177 @@
+import toBase64 from "../utils/toBase64";
+import decodeMetadata from "../utils/decodeMetadata";
+import { NetworkError, UploadAbortedError } from "../utils/Errors";
+import type { Transport, TransportRequest, TransportResponse } from "../types";
+
+type TusUpload = {
+  length: number;
+  metadata: Record<string, string>;
+  data: Uint8Array;
+};
+
+type PatchFault = {
+  offset?: number; // Only fail the PATCH at this offset
+  keepBytes?: number; // Bytes of the chunk stored before the request fails
+  status?: number; // Answer with this status, the connection drops when unset
+  corrupt?: boolean; // Flip a byte so the checksum no longer matches
+};
+
+const digestAlgorithms: Record<string, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+};
+
+// Tests-only tus 1.0 server with the creation, checksum and termination extensions, used as a transport
+export default class TusStandInServer implements Transport {
+  public requests: TransportRequest[] = [];
+  public uploads: Map<string, TusUpload> = new Map();
+  private patchFaults: PatchFault[] = [];
+  private nextId = 1;
+  private basePath: string;
+
+  constructor(basePath = "/files/") {
+    this.basePath = basePath; // Location of new uploads, relative to the creation endpoint
+  }
+
+  // Fail the next matching PATCH request
+  public failPatch(fault: PatchFault) {
+    this.patchFaults.push(fault);
+  }
+
+  public async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    if (request.signal?.aborted) {
+      throw new UploadAbortedError("Upload aborted");
+    }
+    if (request.headers?.["Tus-Resumable"] !== "1.0.0") {
+      return respond(412, { "Tus-Version": "1.0.0" });
+    }
+
+    switch (request.method) {
+      case "POST":
+        return this.create(request);
+      case "HEAD":
+        return this.head(request);
+      case "PATCH":
+        return this.patch(request);
+      case "DELETE":
+        return this.terminate(request);
+      default:
+        return respond(405);
+    }
+  }
+
+  private create(request: TransportRequest) {
+    const length = Number(request.headers?.["Upload-Length"]);
+    if (!Number.isInteger(length) || length < 0) return respond(400);
+
+    const id = `${this.nextId++}`;
+    this.uploads.set(id, {
+      length,
+      metadata: decodeMetadata(request.headers?.["Upload-Metadata"] ?? ""),
+      data: new Uint8Array(0),
+    });
+    return respond(201, { Location: `${this.basePath}${id}` });
+  }
+
+  private head(request: TransportRequest) {
+    const upload = this.find(request.url);
+    if (!upload) return respond(404);
+
+    return respond(200, {
+      "Upload-Offset": upload.data.length.toString(),
+      "Upload-Length": upload.length.toString(),
+      "Cache-Control": "no-store",
+    });
+  }
+
+  private async patch(request: TransportRequest) {
+    const upload = this.find(request.url);
+    if (!upload) return respond(404);
+    if (
+      request.headers?.["Content-Type"] !== "application/offset+octet-stream"
+    ) {
+      return respond(415);
+    }
+    if (Number(request.headers?.["Upload-Offset"]) !== upload.data.length) {
+      return respond(409); // The client must recover the offset with HEAD
+    }
+
+    let chunk = new Uint8Array(await (request.body as Blob).arrayBuffer());
+    const fault = this.patchFaults.find(
+      (item) => item.offset === undefined || item.offset === upload.data.length
+    );
+    this.patchFaults = this.patchFaults.filter((item) => item !== fault);
+    if (fault?.corrupt && chunk.length > 0) {
+      chunk = chunk.slice();
+      chunk[0] ^= 0xff;
+    }
+
+    const checksum = request.headers?.["Upload-Checksum"];
+    if (checksum) {
+      const [algorithm, expected] = checksum.split(" ");
+      if (!digestAlgorithms[algorithm]) return respond(400);
+      const digest = await crypto.subtle.digest(
+        digestAlgorithms[algorithm],
+        chunk
+      );
+      if (toBase64(digest) !== expected) return respond(460); // Checksum mismatch, nothing is stored
+    }
+
+    if (fault && !fault.corrupt) {
+      upload.data = concat(upload.data, chunk.slice(0, fault.keepBytes ?? 0));
+      if (fault.status === undefined) {
+        throw new NetworkError("Upload failed", {
+          cause: new Error("Connection dropped by the tus stand-in server"),
+        });
+      }
+      return respond(fault.status);
+    }
+
+    if (upload.data.length + chunk.length > upload.length) return respond(413);
+    upload.data = concat(upload.data, chunk);
+    request.onUploadProgress?.(chunk.length, chunk.length);
+    return respond(204, { "Upload-Offset": upload.data.length.toString() });
+  }
+
+  private terminate(request: TransportRequest) {
+    const id = this.idOf(request.url);
+    if (!id || !this.uploads.delete(id)) return respond(404);
+    return respond(204);
+  }
+
+  private find(url: string) {
+    const id = this.idOf(url);
+    return id === undefined ? undefined : this.uploads.get(id);
+  }
+
+  private idOf(url: string) {
+    const { pathname } = new URL(url, "http://localhost");
+    return pathname.startsWith(this.basePath)
+      ? pathname.slice(this.basePath.length)
+      : undefined;
+  }
+}
+
+function respond(
+  status: number,
+  headers: Record<string, string> = {}
+): TransportResponse {
+  const lowerCaseHeaders = Object.fromEntries(
+    Object.entries({ "Tus-Resumable": "1.0.0", ...headers }).map(
+      ([key, value]) => [key.toLowerCase(), value]
+    )
+  );
+  return {
+    status,
+    responseText: "",
+    getHeader: (name) => lowerCaseHeaders[name.toLowerCase()] ?? null,
+  };
+}
+
+function concat(first: Uint8Array, second: Uint8Array) {
+  const result = new Uint8Array(first.length + second.length);
+  result.set(first);
+  result.set(second, first.length);
+  return result;
+}
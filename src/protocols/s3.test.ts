@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import UploadChunkFile from "../UploadChunkFile";
+import type { S3Options, Transport, TransportResponse } from "../types";
+
+const MiB = 1024 * 1024;
+
+const file = new File([new Uint8Array(6 * MiB)], "backup.tar");
+
+const response = (status: number, etag?: string): TransportResponse => ({
+  status,
+  responseText: "",
+  getHeader: (name) => (name === "ETag" && etag ? etag : null),
+});
+
+// Part URLs answer with their ETag, or with the given status for failing parts
+const createTransport = (failingParts: Record<string, number> = {}) =>
+  ({
+    send: vi.fn(async ({ url }) =>
+      failingParts[url]
+        ? response(failingParts[url])
+        : response(200, `"etag-${url}"`)
+    ),
+  } satisfies Transport);
+
+const createS3Options = (overrides?: Partial<S3Options>) => ({
+  createMultipartUpload: vi.fn(async () => ({ uploadId: "u1", key: "k1" })),
+  signPart: vi.fn(async ({ partNumber }) => `part-${partNumber}`),
+  completeMultipartUpload: vi.fn(async ({ parts }) => ({ parts })),
+  abortMultipartUpload: vi.fn(async () => undefined),
+  ...overrides,
+});
+
+const upload = (transport: Transport, s3Options: S3Options) =>
+  new UploadChunkFile({
+    uploadType: "s3",
+    chunkSize: 5 * MiB,
+    maxRetries: 0,
+    transport,
+    s3Options,
+  }).uploadFile({ file, uploadUrl: "" });
+
+describe("s3 uploads", () => {
+  it("completes the upload with the ordered parts", async () => {
+    const s3Options = createS3Options();
+
+    await expect(upload(createTransport(), s3Options)).resolves.toEqual({
+      response: {
+        parts: [
+          { partNumber: 1, etag: '"etag-part-1"' },
+          { partNumber: 2, etag: '"etag-part-2"' },
+        ],
+      },
+    });
+    expect(s3Options.abortMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it("aborts the upload when a part fails for good", async () => {
+    const s3Options = createS3Options();
+
+    await expect(
+      upload(createTransport({ "part-2": 403 }), s3Options)
+    ).rejects.toMatchObject({ status: 403 });
+    expect(s3Options.abortMultipartUpload).toHaveBeenCalledWith({
+      uploadId: "u1",
+      key: "k1",
+    });
+  });
+
+  it("aborts the upload when completing it fails", async () => {
+    const s3Options = createS3Options({
+      completeMultipartUpload: vi.fn(async () => {
+        throw new Error("Complete failed");
+      }),
+    });
+
+    await expect(upload(createTransport(), s3Options)).rejects.toThrow(
+      "Complete failed"
+    );
+    expect(s3Options.abortMultipartUpload).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the parts of a failed upload with keepOnFailure", async () => {
+    const s3Options = createS3Options({ keepOnFailure: true });
+
+    await expect(
+      upload(createTransport({ "part-1": 500 }), s3Options)
+    ).rejects.toMatchObject({ status: 500 });
+    expect(s3Options.abortMultipartUpload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import processInBatches from "../utils/processInBatches";
+import ProgressTracker from "../utils/ProgressTracker";
+import Retrier from "../utils/Retrier";
+import createHttpError from "../utils/createHttpError";
+import toChunkError from "../utils/toChunkError";
+import { FileUploadError, UploadAbortedError } from "../utils/Errors";
+import type ConcurrencyLimiter from "../utils/ConcurrencyLimiter";
+import type BandwidthLimiter from "../utils/BandwidthLimiter";
+import type {
+  MultipartOptions,
+  RandomAccessSource,
+  RetryPolicy,
+  S3Options,
+  S3Part,
+  Transport,
+  UploadContext,
+} from "../types";
+
+const MIN_PART_SIZE = 5 * 1024 * 1024; // S3 rejects parts smaller than 5 MiB, except the last one
+const MAX_PARTS = 10000; // S3 allows at most 10,000 parts per upload
+
+// Upload a file with S3 multipart upload through presigned part URLs
+export default async function s3Upload({
+  source,
+  s3Options,
+  multipartOptions,
+  retryPolicy,
+  transport,
+  requestLimiter,
+  bandwidthLimiter,
+  context,
+}: {
+  source: RandomAccessSource;
+  s3Options: S3Options;
+  multipartOptions: MultipartOptions;
+  retryPolicy: RetryPolicy;
+  transport: Transport;
+  requestLimiter?: ConcurrencyLimiter;
+  bandwidthLimiter?: BandwidthLimiter;
+  context: UploadContext;
+}) {
+  const chunkSize = multipartOptions.chunkSize!;
+  const totalParts = Math.max(Math.ceil(source.size / chunkSize), 1);
+
+  // Validate the chunk size against the S3 limits before creating anything
+  if (chunkSize < MIN_PART_SIZE) {
+    throw new FileUploadError(
+      `chunkSize must be at least ${MIN_PART_SIZE} bytes for S3 uploads`
+    );
+  }
+  if (totalParts > MAX_PARTS) {
+    throw new FileUploadError(
+      `File needs ${totalParts} parts, S3 allows at most ${MAX_PARTS}. Increase chunkSize`
+    );
+  }
+
+  const upload = await s3Options.createMultipartUpload(source);
+  const parts: S3Part[] = [];
+  const tracker = new ProgressTracker(context, {
+    totalBytes: source.size,
+    totalChunks: totalParts,
+  });
+  const retrier = new Retrier(retryPolicy);
+
+  // Function to upload a single part to its presigned URL
+  const uploadPart = async (partNumber: number) => {
+    const url = await s3Options.signPart({ ...upload, partNumber });
+    const chunk = await source.read(
+      (partNumber - 1) * chunkSize,
+      partNumber * chunkSize
+    );
+    tracker.chunkStarted(partNumber - 1);
+
+    const response = await transport.send({
+      method: "PUT",
+      url,
+      body: chunk,
+      signal: context.signal,
+      onUploadProgress: (loaded) =>
+        tracker.chunkProgress(partNumber - 1, loaded),
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createHttpError(response);
+    }
+
+    // The bucket CORS configuration must expose the ETag header
+    const etag = response.getHeader("ETag");
+    if (!etag) {
+      throw new FileUploadError(`Missing ETag header for part ${partNumber}`);
+    }
+
+    parts.push({ partNumber, etag });
+    tracker.chunkDone(partNumber - 1, chunk.size);
+  };
+
+  try {
+    await processInBatches(
+      Array.from({ length: totalParts }, (_, index) => index + 1), // S3 part numbers start at 1
+      uploadPart,
+      {
+        ...multipartOptions,
+        limiter: requestLimiter,
+        bandwidth: bandwidthLimiter && {
+          limiter: bandwidthLimiter,
+          bytes: (partNumber) =>
+            Math.min(partNumber * chunkSize, source.size) -
+            (partNumber - 1) * chunkSize,
+        },
+        context,
+        retry: (partNumber, error, attempt) =>
+          retrier.getDelay({ error, attempt, chunkIndex: partNumber - 1 }),
+        onAttemptFailed: (partNumber, willRetry) =>
+          tracker.chunkFailed(partNumber - 1, willRetry),
+        wrapError: (partNumber, error, attempt) =>
+          toChunkError(error, partNumber - 1, attempt),
+      }
+    );
+
+    tracker.complete();
+    return await s3Options.completeMultipartUpload({
+      ...upload,
+      parts: parts.sort((a, b) => a.partNumber - b.partNumber), // S3 requires ascending part numbers
+    });
+  } catch (error) {
+    // Parts of an unfinished upload are billed until it is aborted
+    if (error instanceof UploadAbortedError || !s3Options.keepOnFailure) {
+      await s3Options.abortMultipartUpload(upload).catch(() => undefined); // Best effort cleanup
+    }
+    throw error;
+  }
+}
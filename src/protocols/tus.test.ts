@@ -0,0 +1,194 @@
+import { describe, expect, it, vi } from "vitest";
+import UploadChunkFile from "../UploadChunkFile";
+import TusStandInServer from "./TusStandInServer";
+import type { Options } from "../types";
+
+const endpoint = "http://tus.test/files";
+
+const bytes = (size: number) =>
+  Uint8Array.from({ length: size }, (_, index) => index % 251);
+
+const createFile = (size = 4096) =>
+  new File([bytes(size)], "video.mp4", { type: "video/mp4" });
+
+const createUploader = (server: TusStandInServer, options?: Options) =>
+  new UploadChunkFile({
+    uploadType: "tus",
+    chunkSize: 1024,
+    retryDelay: 0,
+    ...options,
+    transport: server,
+  });
+
+const requestLine = ({
+  method,
+  headers,
+}: TusStandInServer["requests"][number]) =>
+  `${method} ${headers?.["Upload-Offset"] ?? ""}`.trim();
+
+describe("tus uploads", () => {
+  it("creates the upload with its length and metadata", async () => {
+    const server = new TusStandInServer();
+
+    const { response } = await createUploader(server, {
+      tusOptions: { metadata: { owner: "ana" } },
+    }).uploadFile({ file: createFile(), uploadUrl: endpoint });
+
+    expect(response).toEqual({ uploadUrl: "http://tus.test/files/1" }); // Relative Location resolved against the endpoint
+    expect(server.requests[0].headers).toMatchObject({
+      "Tus-Resumable": "1.0.0",
+      "Upload-Length": "4096",
+    });
+    expect(server.uploads.get("1")).toMatchObject({
+      length: 4096,
+      metadata: { filename: "video.mp4", filetype: "video/mp4", owner: "ana" },
+      data: bytes(4096),
+    });
+  });
+
+  it("sends every chunk with PATCH at the current offset", async () => {
+    const server = new TusStandInServer();
+
+    await createUploader(server).uploadFile({
+      file: createFile(3000),
+      uploadUrl: endpoint,
+    });
+
+    expect(server.requests.map(requestLine)).toEqual([
+      "POST",
+      "PATCH 0",
+      "PATCH 1024",
+      "PATCH 2048",
+    ]);
+    expect(server.requests[1].headers).toMatchObject({
+      "Content-Type": "application/offset+octet-stream",
+    });
+  });
+
+  it("recovers the offset with HEAD after a failed PATCH", async () => {
+    const server = new TusStandInServer();
+    server.failPatch({ offset: 1024, keepBytes: 512, status: 500 });
+
+    await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: endpoint,
+    });
+
+    expect(server.requests.map(requestLine)).toEqual([
+      "POST",
+      "PATCH 0",
+      "PATCH 1024",
+      "HEAD",
+      "PATCH 1536",
+      "PATCH 2560",
+      "PATCH 3584",
+    ]);
+    expect(server.uploads.get("1")?.data).toEqual(bytes(4096));
+  });
+
+  it("recovers the offset with HEAD after a dropped connection", async () => {
+    const server = new TusStandInServer();
+    server.failPatch({ keepBytes: 100 });
+
+    await createUploader(server).uploadFile({
+      file: createFile(2048),
+      uploadUrl: endpoint,
+    });
+
+    expect(server.requests.map(requestLine)).toEqual([
+      "POST",
+      "PATCH 0",
+      "HEAD",
+      "PATCH 100",
+      "PATCH 1124",
+    ]);
+    expect(server.uploads.get("1")?.data).toEqual(bytes(2048));
+  });
+
+  it("sends a checksum the server verifies", async () => {
+    const server = new TusStandInServer();
+
+    await createUploader(server, {
+      tusOptions: { checksumAlgorithm: "sha256" },
+    }).uploadFile({ file: createFile(2048), uploadUrl: endpoint });
+
+    expect(server.requests[1].headers?.["Upload-Checksum"]).toMatch(
+      /^sha256 [A-Za-z0-9+/]+=*$/
+    );
+    expect(server.uploads.get("1")?.data).toEqual(bytes(2048));
+  });
+
+  it("sends a chunk again after a 460 checksum mismatch", async () => {
+    const server = new TusStandInServer();
+    server.failPatch({ corrupt: true });
+
+    await createUploader(server, {
+      tusOptions: { checksumAlgorithm: "sha1" },
+    }).uploadFile({ file: createFile(2048), uploadUrl: endpoint });
+
+    expect(server.requests.map(requestLine)).toEqual([
+      "POST",
+      "PATCH 0",
+      "HEAD",
+      "PATCH 0",
+      "PATCH 1024",
+    ]);
+    expect(server.uploads.get("1")?.data).toEqual(bytes(2048));
+  });
+
+  it("fails with a checksum mismatch once the retries are used up", async () => {
+    const server = new TusStandInServer();
+    server.failPatch({ corrupt: true });
+
+    await expect(
+      createUploader(server, {
+        maxRetries: 0,
+        tusOptions: { checksumAlgorithm: "sha256" },
+      }).uploadFile({ file: createFile(2048), uploadUrl: endpoint })
+    ).rejects.toMatchObject({ status: 460, chunkIndex: 0 });
+  });
+
+  it("terminates the upload when it is cancelled", async () => {
+    const server = new TusStandInServer();
+    const task = createUploader(server, {
+      tusOptions: { terminateOnAbort: true },
+      hooks: {
+        afterResponse: async (_, { chunkIndex }) => {
+          if (chunkIndex === 1) task.cancel();
+        },
+      },
+    }).createUpload({ file: createFile(), uploadUrl: endpoint });
+
+    await expect(task.result).rejects.toMatchObject({
+      name: "UploadAbortedError",
+    });
+    expect(server.requests.at(-1)?.method).toBe("DELETE");
+    expect(server.uploads.size).toBe(0);
+  });
+
+  it("creates the upload again after a pause aborts the creation", async () => {
+    const server = new TusStandInServer();
+    const task = createUploader(server, {
+      hooks: {
+        beforeRequest: (_, { method }) => {
+          if (method === "POST" && server.requests.length === 0) {
+            task.pause({ abortInFlight: true });
+          }
+        },
+      },
+    }).createUpload({ file: createFile(), uploadUrl: endpoint });
+
+    await vi.waitFor(() => expect(task.state).toBe("paused"));
+    task.resume();
+
+    await expect(task.result).resolves.toMatchObject({
+      response: { uploadUrl: "http://tus.test/files/1" },
+    });
+    expect(server.requests.map(requestLine).slice(0, 3)).toEqual([
+      "POST",
+      "POST",
+      "PATCH 0",
+    ]);
+    expect(server.uploads.get("1")?.data).toEqual(bytes(4096));
+  });
+});
@@ -0,0 +1,292 @@
+import delay from "../utils/delay";
+import runResumable from "../utils/runResumable";
+import ProgressTracker from "../utils/ProgressTracker";
+import Retrier from "../utils/Retrier";
+import createHttpError from "../utils/createHttpError";
+import toChunkError from "../utils/toChunkError";
+import toBase64 from "../utils/toBase64";
+import encodeMetadata from "../utils/encodeMetadata";
+import { ChecksumMismatchError, UploadAbortedError } from "../utils/Errors";
+import type ConcurrencyLimiter from "../utils/ConcurrencyLimiter";
+import type BandwidthLimiter from "../utils/BandwidthLimiter";
+import type {
+  MultipartOptions,
+  RandomAccessSource,
+  RetryPolicy,
+  TusChecksumAlgorithm,
+  TusOptions,
+  Transport,
+  TusUploadResult,
+  UploadContext,
+} from "../types";
+
+const TUS_VERSION = "1.0.0";
+
+const checksumAlgorithms: Record<TusChecksumAlgorithm, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+};
+
+// Upload a file with the tus 1.0 resumable upload protocol
+export default async function tusUpload({
+  source,
+  endpoint,
+  tusOptions,
+  metadata,
+  multipartOptions,
+  retryPolicy,
+  transport,
+  requestLimiter,
+  bandwidthLimiter,
+  context,
+}: {
+  source: RandomAccessSource;
+  endpoint: string;
+  tusOptions: TusOptions;
+  metadata?: Record<string, string>;
+  multipartOptions: MultipartOptions;
+  retryPolicy: RetryPolicy;
+  transport: Transport;
+  requestLimiter?: ConcurrencyLimiter;
+  bandwidthLimiter?: BandwidthLimiter;
+  context: UploadContext;
+}): Promise<TusUploadResult> {
+  const chunkSize = multipartOptions.chunkSize!;
+  const tracker = new ProgressTracker(context, {
+    totalBytes: source.size,
+    totalChunks: Math.max(Math.ceil(source.size / chunkSize), 1),
+  });
+  const uploadUrl = await runResumable(context, (signal) =>
+    createUpload({ source, endpoint, tusOptions, metadata, transport, signal })
+  ); // Created again when a pause aborted the creation
+
+  try {
+    let offset = 0;
+    const retrier = new Retrier(retryPolicy);
+    let attempt = 1; // Attempt at the current offset
+    let recoverOffset = false;
+    let chunkIndex: number | undefined; // Chunk of the request in flight
+
+    while (recoverOffset || offset < source.size) {
+      await context.waitIfPaused(); // Do not send new chunks while paused
+      try {
+        if (recoverOffset) {
+          const serverOffset = await getOffset({
+            uploadUrl,
+            transport,
+            signal: context.signal,
+          }); // Continue from what the server has
+          tracker.bytesAcknowledged(serverOffset - offset); // Bytes of the failed request the server kept
+          offset = serverOffset;
+          recoverOffset = false;
+          continue;
+        }
+
+        const chunk = await source.read(offset, offset + chunkSize);
+        const start = offset;
+        chunkIndex = Math.floor(start / chunkSize); // A chunk resent from a recovered offset keeps its index
+        await requestLimiter?.acquire(); // Wait for a shared slot
+        try {
+          await bandwidthLimiter?.acquire(chunk.size, context.signal); // Wait for the bytes of this request
+          tracker.chunkStarted(chunkIndex);
+          offset = await patchChunk({
+            uploadUrl,
+            chunk,
+            chunkIndex,
+            attempt,
+            offset,
+            tusOptions,
+            transport,
+            signal: context.signal,
+            onUploadProgress: (loaded) =>
+              tracker.chunkProgress(chunkIndex!, loaded),
+          });
+        } finally {
+          requestLimiter?.release(); // Release shared slot
+        }
+        tracker.chunkDone(chunkIndex, offset - start);
+        chunkIndex = undefined;
+        attempt = 1; // Reset attempts after every successful chunk
+      } catch (error) {
+        const retryDelay =
+          error instanceof UploadAbortedError
+            ? undefined
+            : retrier.getDelay({
+                error,
+                attempt,
+                chunkIndex: Math.floor(offset / chunkSize),
+              });
+        const willRetry =
+          error instanceof UploadAbortedError
+            ? !context.cancelled
+            : retryDelay !== undefined;
+        if (chunkIndex !== undefined) {
+          tracker.chunkFailed(chunkIndex, willRetry);
+          chunkIndex = undefined;
+        }
+        if (error instanceof UploadAbortedError && willRetry) {
+          recoverOffset = true; // Aborted by a pause, continue from the server offset once resumed
+          continue;
+        }
+        if (retryDelay === undefined) {
+          throw toChunkError(error, Math.floor(offset / chunkSize), attempt); // Abort error and final errors should not be retried
+        }
+        attempt += 1;
+        context.setRetrying(true);
+        await delay(retryDelay); // Delay before retry
+        context.setRetrying(false);
+        recoverOffset = true;
+      }
+    }
+
+    tracker.complete();
+    return { uploadUrl };
+  } catch (error) {
+    if (error instanceof UploadAbortedError && tusOptions.terminateOnAbort) {
+      await terminateUpload(uploadUrl, transport).catch(() => undefined); // Best effort cleanup
+    }
+    throw error;
+  }
+}
+
+// Creation extension: announce the upload and get its URL
+async function createUpload({
+  source,
+  endpoint,
+  tusOptions,
+  metadata,
+  transport,
+  signal,
+}: {
+  source: RandomAccessSource;
+  endpoint: string;
+  tusOptions: TusOptions;
+  metadata?: Record<string, string>;
+  transport: Transport;
+  signal?: AbortSignal;
+}) {
+  const uploadMetadata = {
+    filename: source.name,
+    filetype: source.type,
+    ...tusOptions.metadata,
+    ...metadata, // Metadata of this upload
+  };
+
+  const response = await transport.send({
+    method: "POST",
+    url: endpoint,
+    headers: {
+      "Tus-Resumable": TUS_VERSION,
+      "Upload-Length": source.size.toString(),
+      "Upload-Metadata": encodeMetadata(uploadMetadata),
+    },
+    signal,
+  });
+
+  const location = response.getHeader("Location");
+  if (response.status !== 201 || !location) {
+    throw createHttpError(response);
+  }
+
+  return resolveUrl(location, endpoint);
+}
+
+// Core protocol: send a chunk at the given offset and return the new offset
+async function patchChunk({
+  uploadUrl,
+  chunk,
+  chunkIndex,
+  attempt,
+  offset,
+  tusOptions,
+  transport,
+  signal,
+  onUploadProgress,
+}: {
+  uploadUrl: string;
+  chunk: Blob;
+  chunkIndex: number;
+  attempt: number;
+  offset: number;
+  tusOptions: TusOptions;
+  transport: Transport;
+  signal?: AbortSignal;
+  onUploadProgress: (loaded: number) => void;
+}) {
+  const headers: Record<string, string> = {
+    "Tus-Resumable": TUS_VERSION,
+    "Upload-Offset": offset.toString(),
+    "Content-Type": "application/offset+octet-stream",
+  };
+
+  // Checksum extension: let the server verify the chunk
+  if (tusOptions.checksumAlgorithm) {
+    const digest = await crypto.subtle.digest(
+      checksumAlgorithms[tusOptions.checksumAlgorithm],
+      await chunk.arrayBuffer()
+    );
+    headers["Upload-Checksum"] = `${tusOptions.checksumAlgorithm} ${toBase64(
+      digest
+    )}`;
+  }
+
+  const response = await transport.send({
+    method: "PATCH",
+    url: uploadUrl,
+    headers,
+    body: chunk,
+    signal,
+    chunkIndex,
+    attempt,
+    onUploadProgress,
+  });
+
+  if (response.status === 460) {
+    throw new ChecksumMismatchError("Checksum mismatch", { status: 460 }); // Checksum extension mismatch status
+  }
+  if (response.status !== 204 && response.status !== 200) {
+    throw createHttpError(response);
+  }
+
+  return Number(response.getHeader("Upload-Offset") ?? offset + chunk.size);
+}
+
+// Ask the server how many bytes of the upload it has received
+async function getOffset({
+  uploadUrl,
+  transport,
+  signal,
+}: {
+  uploadUrl: string;
+  transport: Transport;
+  signal?: AbortSignal;
+}) {
+  const response = await transport.send({
+    method: "HEAD",
+    url: uploadUrl,
+    headers: { "Tus-Resumable": TUS_VERSION, "Cache-Control": "no-store" },
+    signal,
+  });
+
+  const offset = Number(response.getHeader("Upload-Offset") ?? NaN);
+  if (response.status < 200 || response.status >= 300 || Number.isNaN(offset)) {
+    throw createHttpError(response);
+  }
+
+  return offset;
+}
+
+// Termination extension: tell the server to discard the upload
+async function terminateUpload(uploadUrl: string, transport: Transport) {
+  await transport.send({
+    method: "DELETE",
+    url: uploadUrl,
+    headers: { "Tus-Resumable": TUS_VERSION },
+  });
+}
+
+// The Location header may be relative to the creation endpoint
+function resolveUrl(location: string, endpoint: string) {
+  const base = typeof window !== "undefined" ? window.location.href : undefined;
+  return new URL(location, new URL(endpoint, base)).toString();
+}
@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { StrictMode } from "react";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import useChunkUpload from "./useChunkUpload";
+import useUploadQueue from "./useUploadQueue";
+import { UploadAbortedError } from "../utils/Errors";
+import type { Transport, TransportRequest } from "../types";
+
+// Transport that holds every request until the test answers it
+const createFakeTransport = () => {
+  const pending: {
+    request: TransportRequest;
+    respond: (body: unknown) => void;
+  }[] = [];
+  const aborted: TransportRequest[] = [];
+
+  const transport: Transport = {
+    send: (request) =>
+      new Promise((resolve, reject) => {
+        request.signal?.addEventListener("abort", () => {
+          aborted.push(request);
+          reject(new UploadAbortedError("Upload aborted"));
+        });
+        pending.push({
+          request,
+          respond: (body) => {
+            request.onUploadProgress?.(1, 1);
+            resolve({
+              status: 200,
+              responseText: JSON.stringify(body),
+              getHeader: () => null,
+            });
+          },
+        });
+      }),
+  };
+
+  // Answer the oldest pending request
+  const respond = async (body: unknown = { ok: true }) => {
+    await waitFor(() => expect(pending.length).toBeGreaterThan(0));
+    await act(async () => pending.shift()!.respond(body));
+  };
+
+  return { transport, pending, aborted, respond };
+};
+
+const file = () => new File(["hello world"], "hello.txt");
+
+describe("useChunkUpload", () => {
+  it("exposes status, progress and the result", async () => {
+    const { transport, respond } = createFakeTransport();
+    const { result } = renderHook(() =>
+      useChunkUpload<{ ok: boolean }>({
+        uploadUrl: "/upload",
+        options: { transport },
+      })
+    );
+    expect(result.current).toMatchObject({ status: "idle", progress: 0 });
+
+    let upload!: Promise<unknown>;
+    act(() => {
+      upload = result.current.upload(file());
+    });
+    expect(result.current.status).toBe("uploading");
+
+    await respond({ ok: true });
+    await act(() => upload);
+
+    expect(result.current).toMatchObject({
+      status: "completed",
+      progress: 100,
+      result: { response: { ok: true } },
+    });
+  });
+
+  it("keeps the error in the state when the upload is cancelled", async () => {
+    const { transport, pending } = createFakeTransport();
+    const { result } = renderHook(() =>
+      useChunkUpload({ uploadUrl: "/upload", options: { transport } })
+    );
+
+    let upload!: Promise<unknown>;
+    act(() => {
+      upload = result.current.upload(file());
+    });
+    await waitFor(() => expect(pending).toHaveLength(1));
+    act(() => result.current.cancel());
+
+    await act(async () => {
+      await expect(upload).resolves.toBeUndefined();
+    });
+    expect(result.current.status).toBe("cancelled");
+    expect(result.current.error).toBeInstanceOf(UploadAbortedError);
+  });
+
+  it("aborts the upload on unmount", async () => {
+    const { transport, pending, aborted } = createFakeTransport();
+    const { result, unmount } = renderHook(() =>
+      useChunkUpload({ uploadUrl: "/upload", options: { transport } })
+    );
+
+    act(() => {
+      void result.current.upload(file());
+    });
+    await waitFor(() => expect(pending).toHaveLength(1));
+    unmount();
+
+    expect(aborted).toHaveLength(1);
+  });
+
+  it("keeps uploading under StrictMode double effects", async () => {
+    const { transport, respond } = createFakeTransport();
+    const { result } = renderHook(
+      () => useChunkUpload({ uploadUrl: "/upload", options: { transport } }),
+      { wrapper: StrictMode }
+    );
+
+    let upload!: Promise<unknown>;
+    act(() => {
+      upload = result.current.upload(file());
+    });
+    await respond();
+    await act(() => upload);
+
+    expect(result.current.status).toBe("completed");
+  });
+
+  it("replaces a running upload with a new one", async () => {
+    const { transport, pending, aborted, respond } = createFakeTransport();
+    const { result } = renderHook(() =>
+      useChunkUpload({ uploadUrl: "/upload", options: { transport } })
+    );
+
+    act(() => {
+      void result.current.upload(file());
+    });
+    await waitFor(() => expect(pending).toHaveLength(1));
+    let second!: Promise<unknown>;
+    act(() => {
+      second = result.current.upload(file());
+    });
+
+    expect(aborted).toHaveLength(1);
+    pending.shift(); // The aborted request
+    await respond({ second: true });
+    await act(() => second);
+    expect(result.current).toMatchObject({
+      status: "completed",
+      result: { response: { second: true } },
+    });
+  });
+});
+
+describe("useUploadQueue", () => {
+  it("tracks every item until the queue is done", async () => {
+    const { transport, respond } = createFakeTransport();
+    const { result } = renderHook(() =>
+      useUploadQueue({ uploadUrl: "/upload", options: { transport } })
+    );
+
+    act(() => {
+      result.current.add(file());
+      result.current.add(file());
+    });
+    expect(result.current.items.map((item) => item.status)).toEqual([
+      "uploading",
+      "uploading",
+    ]);
+
+    await respond();
+    await respond();
+
+    await waitFor(() =>
+      expect(result.current.items.map((item) => item.status)).toEqual([
+        "completed",
+        "completed",
+      ])
+    );
+    expect(result.current.progress).toBe(100);
+  });
+
+  it("cancels pending and running items on unmount", async () => {
+    const { transport, pending, aborted } = createFakeTransport();
+    const { result, unmount } = renderHook(() =>
+      useUploadQueue({
+        uploadUrl: "/upload",
+        options: { transport },
+        maxConcurrentFiles: 1,
+      })
+    );
+
+    act(() => {
+      result.current.add(file());
+      result.current.add(file());
+    });
+    await waitFor(() => expect(pending).toHaveLength(1));
+    unmount();
+
+    expect(aborted).toHaveLength(1);
+    expect(pending).toHaveLength(1); // The second file never started
+  });
+});
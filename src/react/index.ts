@@ -0,0 +1,2 @@
+export { default as useChunkUpload } from "./useChunkUpload";
+export { default as useUploadQueue } from "./useUploadQueue";
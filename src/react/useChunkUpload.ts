@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import UploadChunkFile from "../UploadChunkFile";
+import type UploadTask from "../UploadTask";
+import type {
+  UploadSource,
+  UseChunkUploadOptions,
+  UseChunkUploadParams,
+  UseChunkUploadResult,
+  UseChunkUploadState,
+} from "../types";
+
+const initialState: UseChunkUploadState<never> = {
+  status: "idle",
+  progress: 0,
+};
+
+// Upload one file at a time from a component, the upload is cancelled on unmount
+export default function useChunkUpload<T = unknown>(
+  hookOptions: UseChunkUploadOptions = {}
+): UseChunkUploadResult<T> {
+  const [state, setState] = useState<UseChunkUploadState<T>>(initialState);
+  const taskRef = useRef<UploadTask<T>>();
+  const generationRef = useRef(0); // Changes whenever the current upload is replaced or dropped
+  const optionsRef = useRef(hookOptions);
+  optionsRef.current = hookOptions; // Uploads read the latest options without changing callbacks
+
+  useEffect(
+    () => () => {
+      generationRef.current++; // Ignore updates of the cancelled upload, also when StrictMode mounts again
+      taskRef.current?.cancel();
+      taskRef.current = undefined;
+    },
+    []
+  );
+
+  const upload = useCallback(
+    async (file: UploadSource, params: UseChunkUploadParams<T> = {}) => {
+      const uploadUrl = params.uploadUrl ?? optionsRef.current.uploadUrl;
+      if (!uploadUrl) {
+        throw new Error("uploadUrl is required");
+      }
+
+      taskRef.current?.cancel(); // A hook runs one upload at a time
+      const generation = ++generationRef.current;
+      const update = (patch: Partial<UseChunkUploadState<T>>) => {
+        if (generationRef.current === generation) {
+          setState((previous) => ({ ...previous, ...patch }));
+        }
+      };
+
+      setState({ ...initialState, status: "uploading" });
+      const task = new UploadChunkFile(
+        optionsRef.current.options
+      ).createUpload<T>({
+        ...params,
+        file,
+        uploadUrl,
+        onProgress: (details) =>
+          update({ progress: details.percentage, details }),
+        onStateChange: (status) => update({ status }),
+      });
+      taskRef.current = task;
+
+      try {
+        const result = await task.result;
+        update({ status: "completed", progress: 100, result });
+        return result;
+      } catch (error) {
+        update({ status: task.state, error });
+        return undefined; // The error is in the state, callers do not need to catch
+      } finally {
+        if (taskRef.current === task) taskRef.current = undefined;
+      }
+    },
+    []
+  );
+
+  const cancel = useCallback(() => taskRef.current?.cancel(), []);
+
+  const pause = useCallback(
+    (options?: { abortInFlight?: boolean }) => taskRef.current?.pause(options),
+    []
+  );
+
+  const resume = useCallback(() => taskRef.current?.resume(), []);
+
+  // Cancel the current upload and go back to idle
+  const reset = useCallback(() => {
+    generationRef.current++;
+    taskRef.current?.cancel();
+    taskRef.current = undefined;
+    setState(initialState);
+  }, []);
+
+  return { ...state, upload, cancel, pause, resume, reset };
+}
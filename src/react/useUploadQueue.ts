@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import UploadQueue from "../UploadQueue";
+import type {
+  UploadQueueEvents,
+  UploadQueueItem,
+  UploadQueueOptions,
+  UploadSource,
+  UseUploadQueueResult,
+} from "../types";
+
+const queueEvents: (keyof UploadQueueEvents)[] = [
+  "itemAdded",
+  "itemStarted",
+  "itemProgress",
+  "itemCompleted",
+  "itemFailed",
+  "itemCancelled",
+  "itemRemoved",
+  "progress",
+];
+
+// Upload many files from a component, pending and running uploads are cancelled on unmount
+export default function useUploadQueue(
+  queueOptions: UploadQueueOptions
+): UseUploadQueueResult {
+  const [snapshot, setSnapshot] = useState<{
+    items: UploadQueueItem[];
+    progress: number | undefined;
+  }>({ items: [], progress: 0 });
+  const queueRef = useRef<UploadQueue>();
+  const optionsRef = useRef(queueOptions);
+  optionsRef.current = queueOptions; // Read when the queue is created
+
+  // Create the queue on first use, so a StrictMode remount gets a fresh one
+  const getQueue = useCallback(() => {
+    if (!queueRef.current) {
+      const queue = new UploadQueue(optionsRef.current);
+      const sync = () => {
+        if (queueRef.current === queue) {
+          setSnapshot({ items: queue.items, progress: queue.progress });
+        }
+      };
+      queueEvents.forEach((event) => queue.on(event, sync));
+      queueRef.current = queue;
+    }
+    return queueRef.current;
+  }, []);
+
+  useEffect(
+    () => () => {
+      const queue = queueRef.current;
+      queueRef.current = undefined; // Events of the dropped queue no longer update the state
+      queue?.items.forEach((item) => queue.cancel(item.id));
+    },
+    []
+  );
+
+  const add = useCallback(
+    (file: UploadSource, options?: Parameters<UploadQueue["add"]>[1]) =>
+      getQueue().add(file, options),
+    [getQueue]
+  );
+
+  const start = useCallback(() => getQueue().start(), [getQueue]);
+
+  const cancel = useCallback((id: string) => getQueue().cancel(id), [getQueue]);
+
+  const remove = useCallback((id: string) => getQueue().remove(id), [getQueue]);
+
+  // Priority and order changes do not emit events, so sync the snapshot here
+  const setPriority = useCallback(
+    (id: string, priority: number) => {
+      const queue = getQueue();
+      queue.setPriority(id, priority);
+      setSnapshot({ items: queue.items, progress: queue.progress });
+    },
+    [getQueue]
+  );
+
+  const move = useCallback(
+    (id: string, index: number) => {
+      const queue = getQueue();
+      queue.move(id, index);
+      setSnapshot({ items: queue.items, progress: queue.progress });
+    },
+    [getQueue]
+  );
+
+  return { ...snapshot, add, start, cancel, remove, setPriority, move };
+}
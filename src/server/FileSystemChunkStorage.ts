@@ -0,0 +1,145 @@
+import { createHash, randomUUID } from "node:crypto";
+import {
+  mkdir,
+  open,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import type { ChunkStorage, ReceiverSession } from "../types";
+
+const CHUNK_FILE = /^(\d+)\.part$/;
+
+// Keep chunks on disk, one directory per upload, and write assembled files to the output directory
+export default class FileSystemChunkStorage implements ChunkStorage {
+  private chunksDirectory: string;
+  private outputDirectory: string;
+
+  constructor({
+    directory,
+    outputDirectory,
+  }: {
+    directory: string;
+    outputDirectory?: string;
+  }) {
+    this.chunksDirectory = join(directory, "chunks");
+    this.outputDirectory = outputDirectory ?? join(directory, "files"); // Default location of assembled files
+  }
+
+  // Write to a temporary file first, so a chunk is only listed once it is complete
+  public async writeChunk(uploadId: string, index: number, data: Uint8Array) {
+    const directory = this.uploadDirectory(uploadId);
+    await mkdir(directory, { recursive: true });
+    await writeAtomic(join(directory, `${index}.part`), data);
+  }
+
+  public async readChunk(uploadId: string, index: number) {
+    return readFile(join(this.uploadDirectory(uploadId), `${index}.part`));
+  }
+
+  public async listChunks(uploadId: string) {
+    const files = await readdir(this.uploadDirectory(uploadId)).catch(
+      ignoreMissing
+    );
+    return (files ?? [])
+      .map((file) => CHUNK_FILE.exec(file)?.[1])
+      .filter((index): index is string => index !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  public async readSession(uploadId: string) {
+    return readSessionFile(this.uploadDirectory(uploadId));
+  }
+
+  public async writeSession(session: ReceiverSession) {
+    const directory = this.uploadDirectory(session.uploadId);
+    await mkdir(directory, { recursive: true });
+    await writeAtomic(join(directory, "session.json"), JSON.stringify(session));
+  }
+
+  public async listSessions() {
+    const directories = await readdir(this.chunksDirectory).catch(
+      ignoreMissing
+    );
+    const sessions = await Promise.all(
+      (directories ?? []).map((directory) =>
+        readSessionFile(join(this.chunksDirectory, directory))
+      )
+    );
+    return sessions.filter((session): session is ReceiverSession => !!session);
+  }
+
+  // Join the chunks in index order into a new file, an existing file with the same name is kept
+  public async assemble(session: ReceiverSession) {
+    await mkdir(this.outputDirectory, { recursive: true });
+    const { path, handle } = await this.createOutputFile(session);
+
+    let size = 0;
+    try {
+      for (let index = 0; index < session.totalChunks!; index++) {
+        const data = await this.readChunk(session.uploadId, index);
+        await handle.write(data);
+        size += data.byteLength;
+      }
+    } catch (error) {
+      await handle.close();
+      await rm(path, { force: true });
+      throw error;
+    }
+    await handle.close();
+
+    return { size, path };
+  }
+
+  public async remove(uploadId: string) {
+    await rm(this.uploadDirectory(uploadId), { recursive: true, force: true });
+  }
+
+  // Upload ids come from clients, hash them so they cannot point outside the directory
+  private uploadDirectory(uploadId: string) {
+    const hash = createHash("sha256").update(uploadId).digest("hex");
+    return join(this.chunksDirectory, hash);
+  }
+
+  // Open "name.ext", or "name_1.ext", "name_2.ext" and so on when it is taken
+  private async createOutputFile(session: ReceiverSession) {
+    const fileName = basename(session.fileName) || session.uploadId;
+    const extension = extname(fileName);
+    const name = fileName.slice(0, fileName.length - extension.length);
+
+    for (let attempt = 0; ; attempt++) {
+      const path = join(
+        this.outputDirectory,
+        attempt === 0 ? fileName : `${name}_${attempt}${extension}`
+      );
+      try {
+        return { path, handle: await open(path, "wx") }; // Fails when the file exists, even across processes
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+    }
+  }
+}
+
+async function writeAtomic(path: string, data: Uint8Array | string) {
+  const temporaryPath = `${path}.${randomUUID()}.tmp`;
+  await writeFile(temporaryPath, data);
+  await rename(temporaryPath, path);
+}
+
+async function readSessionFile(directory: string) {
+  const json = await readFile(join(directory, "session.json"), "utf8").catch(
+    ignoreMissing
+  );
+  return json === undefined ? undefined : (JSON.parse(json) as ReceiverSession);
+}
+
+// Missing files and directories mean nothing was stored yet
+function ignoreMissing(error: unknown): undefined {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+  throw error;
+}
@@ -0,0 +1,67 @@
+import type { ChunkStorage, ReceiverSession } from "../types";
+
+type MemoryUpload = {
+  chunks: Map<number, Uint8Array>;
+  session?: ReceiverSession;
+};
+
+// Keep chunks in memory, for tests and single process servers with small files
+export default class MemoryChunkStorage implements ChunkStorage {
+  private uploads: Map<string, MemoryUpload> = new Map();
+
+  public async writeChunk(uploadId: string, index: number, data: Uint8Array) {
+    this.getUpload(uploadId).chunks.set(index, data);
+  }
+
+  public async readChunk(uploadId: string, index: number) {
+    const data = this.uploads.get(uploadId)?.chunks.get(index);
+    if (!data) {
+      throw new Error(`Chunk ${index} of upload ${uploadId} is missing`);
+    }
+    return data;
+  }
+
+  public async listChunks(uploadId: string) {
+    const chunks = this.uploads.get(uploadId)?.chunks.keys() ?? [];
+    return [...chunks].sort((a, b) => a - b);
+  }
+
+  public async readSession(uploadId: string) {
+    const session = this.uploads.get(uploadId)?.session;
+    return session && { ...session, metadata: { ...session.metadata } }; // Copy so callers cannot change the stored session
+  }
+
+  public async writeSession(session: ReceiverSession) {
+    this.getUpload(session.uploadId).session = {
+      ...session,
+      metadata: { ...session.metadata },
+    };
+  }
+
+  public async listSessions() {
+    return [...this.uploads.values()]
+      .map((upload) => upload.session)
+      .filter((session): session is ReceiverSession => !!session);
+  }
+
+  public async assemble(session: ReceiverSession) {
+    const parts: BlobPart[] = [];
+    for (let index = 0; index < session.totalChunks!; index++) {
+      parts.push((await this.readChunk(session.uploadId, index)) as BlobPart);
+    }
+
+    const blob = new Blob(parts, { type: session.fileType });
+    return { size: blob.size, blob };
+  }
+
+  public async remove(uploadId: string) {
+    this.uploads.delete(uploadId);
+  }
+
+  private getUpload(uploadId: string) {
+    if (!this.uploads.has(uploadId)) {
+      this.uploads.set(uploadId, { chunks: new Map() });
+    }
+    return this.uploads.get(uploadId)!;
+  }
+}
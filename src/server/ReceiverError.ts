@@ -0,0 +1,10 @@
+// A request the receiver rejects, answered with its status and message
+export default class ReceiverError extends Error {
+  public status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ReceiverError";
+    this.status = status;
+  }
+}
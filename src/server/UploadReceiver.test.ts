@@ -0,0 +1,110 @@
+import { Readable } from "node:stream";
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import UploadReceiver from "./UploadReceiver";
+import readForm from "./readForm";
+
+// Form of one chunk with the default payload keys
+function chunkForm(fields: Record<string, string>, chunk: BlobPart = "data") {
+  const form = new FormData();
+  form.append("chunk", new Blob([chunk]));
+  Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+  return form;
+}
+
+// Multipart body of a form as a Node stream, with its content type
+async function toMultipart(form: FormData) {
+  const response = new Response(form);
+  const body = Buffer.from(await response.arrayBuffer());
+  return {
+    body,
+    contentType: response.headers.get("Content-Type")!,
+  };
+}
+
+describe("UploadReceiver", () => {
+  it("requires an uploadId instead of falling back to the file name", async () => {
+    const receiver = new UploadReceiver();
+
+    await expect(
+      receiver.handle("chunk", chunkForm({ fileName: "a.txt" }))
+    ).resolves.toMatchObject({ status: 400 });
+    await expect(
+      receiver.handle("finalize", { fileName: "a.txt", totalChunk: 1 })
+    ).resolves.toMatchObject({ status: 400 });
+  });
+
+  it("rejects a totalChunk above maxChunks", async () => {
+    const receiver = new UploadReceiver({ maxChunks: 10 });
+
+    await expect(
+      receiver.handle(
+        "chunk",
+        chunkForm({ uploadId: "u1", currentChunk: "0", totalChunk: "1e9" })
+      )
+    ).resolves.toMatchObject({ status: 413 });
+    await expect(
+      receiver.handle(
+        "chunk",
+        chunkForm({ uploadId: "u1", currentChunk: "10", totalChunk: "11" })
+      )
+    ).resolves.toMatchObject({ status: 413 });
+    await expect(
+      receiver.handle("init", { uploadId: "u2", totalChunk: 11 })
+    ).resolves.toMatchObject({ status: 413 });
+  });
+
+  it("stops decompressing a chunk at maxChunkSize", async () => {
+    const receiver = new UploadReceiver({ maxChunkSize: 1024 });
+    const bomb = gzipSync(new Uint8Array(1024 * 1024));
+    expect(bomb.byteLength).toBeLessThan(1024 * 2);
+
+    await expect(
+      receiver.handle(
+        "chunk",
+        chunkForm(
+          { uploadId: "u1", currentChunk: "0", contentEncoding: "gzip" },
+          bomb
+        )
+      )
+    ).resolves.toMatchObject({ status: 413 });
+  });
+
+  it("derives the body limit from maxChunkSize", () => {
+    expect(new UploadReceiver().maxBodySize).toBeUndefined();
+    expect(new UploadReceiver({ maxChunkSize: 1024 }).maxBodySize).toBe(
+      1024 + 1024 * 1024
+    );
+    expect(new UploadReceiver({ maxBodySize: 10 }).maxBodySize).toBe(10);
+  });
+});
+
+describe("readForm", () => {
+  const form = chunkForm({ uploadId: "u1" }, new Uint8Array(4096));
+
+  it("parses a body within the limit", async () => {
+    const { body, contentType } = await toMultipart(form);
+    const parsed = await readForm(Readable.from([body]), contentType, {
+      contentLength: body.byteLength.toString(),
+      maxBytes: body.byteLength,
+    });
+    expect(parsed.get("uploadId")).toBe("u1");
+  });
+
+  it("rejects a Content-Length over the limit before reading the body", async () => {
+    const { body, contentType } = await toMultipart(form);
+    await expect(
+      readForm(Readable.from([body]), contentType, {
+        contentLength: body.byteLength.toString(),
+        maxBytes: 1024,
+      })
+    ).rejects.toMatchObject({ status: 413 });
+  });
+
+  it("rejects a body that grows past the limit without a Content-Length", async () => {
+    const { body, contentType } = await toMultipart(form);
+    await expect(
+      readForm(Readable.from([body]), contentType, { maxBytes: 1024 })
+    ).rejects.toMatchObject({ status: 413 });
+  });
+});
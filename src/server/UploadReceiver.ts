@@ -0,0 +1,457 @@
+import computeChecksum from "../integrity/computeChecksum";
+import createHasher from "../integrity/createHasher";
+import createUploadId from "../utils/createUploadId";
+import decodeMetadata from "../utils/decodeMetadata";
+import resolvePayloadOptions from "../utils/resolvePayloadOptions";
+import MemoryChunkStorage from "./MemoryChunkStorage";
+import ReceiverError from "./ReceiverError";
+import decompressChunk from "./decompressChunk";
+import type {
+  ChecksumAlgorithm,
+  ChunkStorage,
+  CompressionFormat,
+  PayloadOptions,
+  ReceivedFile,
+  ReceiverAction,
+  ReceiverHeaders,
+  ReceiverResult,
+  ReceiverSession,
+  UploadReceiverOptions,
+} from "../types";
+
+type RequestBody = FormData | Record<string, unknown>;
+
+const encodings: string[] = ["gzip", "deflate"]; // Formats of CompressionStream, "deflate" has the zlib wrapper
+
+// Receive the chunks sent by UploadChunkFile and assemble the file once every chunk is stored
+export default class UploadReceiver {
+  private storage: ChunkStorage;
+  private payloadOptions: PayloadOptions;
+  private options: {
+    maxChunkSize?: number;
+    maxChunks: number;
+    maxBodySize?: number;
+    expireAfter: number;
+    checksumAlgorithm: ChecksumAlgorithm;
+    mismatchStatus: number;
+    onComplete?: (file: ReceivedFile) => unknown;
+    findDuplicate?: UploadReceiverOptions["findDuplicate"];
+  };
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options?: UploadReceiverOptions) {
+    this.storage = options?.storage ?? new MemoryChunkStorage(); // Default storage keeps chunks in memory
+    this.payloadOptions = resolvePayloadOptions(options?.payloadOptions); // Same keys as the client
+
+    this.options = {
+      maxChunkSize: options?.maxChunkSize, // No limit on the chunk size by default
+      maxChunks: options?.maxChunks ?? 10000, // Default largest number of chunks of an upload
+      maxBodySize:
+        options?.maxBodySize ??
+        (options?.maxChunkSize !== undefined
+          ? options.maxChunkSize + 1024 * 1024
+          : undefined), // Default leaves 1MB for the fields next to the largest chunk
+      expireAfter: options?.expireAfter ?? 5 * 60 * 60 * 1000, // Default unfinished uploads are dropped after 5 hours
+      checksumAlgorithm: options?.checksumAlgorithm ?? "sha256", // Default algorithm of the client integrity option
+      mismatchStatus: options?.mismatchStatus ?? 460, // Default status the client retries as a checksum mismatch
+      onComplete: options?.onComplete, // Its result, when defined, is the response body of the last request
+      findDuplicate: options?.findDuplicate, // Every dedupe lookup is a miss by default
+    };
+  }
+
+  // Largest multipart body the handlers read, undefined when there is no limit
+  public get maxBodySize() {
+    return this.options.maxBodySize;
+  }
+
+  // Run a request and answer rejected requests with their status and message
+  public async handle(
+    action: ReceiverAction,
+    body: RequestBody | Promise<RequestBody>,
+    headers: ReceiverHeaders = {}
+  ): Promise<ReceiverResult> {
+    try {
+      const payload = await body;
+      switch (action) {
+        case "init":
+          return await this.init(payload, headers);
+        case "finalize":
+          return await this.finalize(payload, headers);
+        case "exists":
+          return await this.exists(payload, headers);
+        default:
+          if (!(payload instanceof FormData)) {
+            throw new ReceiverError("Chunks must be sent as multipart", 415);
+          }
+          return await this.receiveChunk(payload, headers);
+      }
+    } catch (error) {
+      if (!(error instanceof ReceiverError)) throw error;
+      return { status: error.status, body: { message: error.message } };
+    }
+  }
+
+  // Store a chunk, the file is assembled when it completes an upload without a handshake
+  public async receiveChunk(
+    form: FormData,
+    headers: ReceiverHeaders = {}
+  ): Promise<ReceiverResult> {
+    const keys = this.payloadOptions;
+    const fields = this.readFields(form, headers);
+
+    const chunk = form.get(keys.chunkName!);
+    if (!(chunk instanceof Blob)) {
+      throw new ReceiverError(`Missing ${keys.chunkName} file`, 400);
+    }
+    if (
+      this.options.maxChunkSize !== undefined &&
+      chunk.size > this.options.maxChunkSize
+    ) {
+      throw new ReceiverError("Chunk is too large", 413);
+    }
+
+    const uploadId = fields[keys.uploadId!];
+    if (!uploadId) {
+      throw new ReceiverError(`Missing ${keys.uploadId}`, 400);
+    }
+
+    const currentChunk = fields[keys.currentChunk!];
+    const index =
+      currentChunk === undefined
+        ? 0
+        : parseIndex(currentChunk, keys.currentChunk!); // Single uploads send the whole file without an index
+    if (index >= this.options.maxChunks) {
+      throw new ReceiverError("Too many chunks", 413);
+    }
+    const data = await decode(
+      new Uint8Array(await chunk.arrayBuffer()),
+      fields[keys.contentEncoding!],
+      keys.contentEncoding!,
+      this.options.maxChunkSize
+    );
+
+    // Checksums cover the decompressed bytes, or the sealed bytes of an encrypted chunk
+    const checksum = fields[keys.checksum!];
+    if (checksum) {
+      const digest = await computeChecksum(
+        new Blob([data as BlobPart]),
+        this.options.checksumAlgorithm
+      );
+      if (digest !== checksum.toLowerCase()) {
+        throw new ReceiverError(
+          `Checksum mismatch on chunk ${index}`,
+          this.options.mismatchStatus
+        );
+      }
+    }
+
+    await this.storage.writeChunk(uploadId, index, data);
+
+    // Update the session and check for completion one request at a time, so the file is assembled once
+    return this.withLock(uploadId, async () => {
+      const stored = await this.storage.readSession(uploadId);
+      if (stored?.completed) return stored.completed; // Another request of the same upload assembled the file
+
+      const session = this.updateSession(stored, uploadId, fields);
+      if (currentChunk === undefined) {
+        session.totalChunks = 1;
+      } else if (fields[keys.lastChunk!] === "true") {
+        session.totalChunks = index + 1; // Streams only know the total at the last chunk
+      }
+      await this.storage.writeSession(session);
+
+      const uploadedChunks = await this.storage.listChunks(uploadId);
+      if (
+        !session.handshake &&
+        missingChunks(session, uploadedChunks)?.length === 0
+      ) {
+        return this.complete(session);
+      }
+
+      return {
+        status: 200,
+        body: { uploadId, completed: false, uploadedChunks },
+      };
+    });
+  }
+
+  // Handshake init: start or continue an upload and tell the client what is already stored
+  public async init(
+    body: RequestBody,
+    headers: ReceiverHeaders = {}
+  ): Promise<ReceiverResult> {
+    const fields = this.readFields(body, headers);
+    const uploadId = fields[this.payloadOptions.uploadId!] ?? createUploadId(); // Assign an id when the client sends none
+
+    return this.withLock(uploadId, async () => {
+      const session = this.updateSession(
+        await this.storage.readSession(uploadId),
+        uploadId,
+        fields
+      );
+      session.handshake = true; // Chunks no longer complete the upload, the finalize request does
+      await this.storage.writeSession(session);
+
+      return {
+        status: 200,
+        body: {
+          uploadId,
+          maxChunkSize: this.options.maxChunkSize,
+          uploadedChunks: await this.storage.listChunks(uploadId),
+        },
+      };
+    });
+  }
+
+  // Handshake finalize: assemble the file once every chunk is stored
+  public async finalize(
+    body: RequestBody,
+    headers: ReceiverHeaders = {}
+  ): Promise<ReceiverResult> {
+    const keys = this.payloadOptions;
+    const fields = this.readFields(body, headers);
+    const uploadId = fields[keys.uploadId!];
+    if (!uploadId) {
+      throw new ReceiverError(`Missing ${keys.uploadId}`, 400);
+    }
+
+    return this.withLock(uploadId, async () => {
+      const stored = await this.storage.readSession(uploadId);
+      if (!stored) {
+        throw new ReceiverError(`Unknown upload ${uploadId}`, 404);
+      }
+      if (stored.completed) return stored.completed; // A retried finalize request
+
+      const session = this.updateSession(stored, uploadId, fields);
+      await this.storage.writeSession(session);
+
+      const missing = missingChunks(
+        session,
+        await this.storage.listChunks(uploadId)
+      );
+      if (!missing) {
+        throw new ReceiverError(`Missing ${keys.totalChunk}`, 400);
+      }
+      if (missing.length > 0) {
+        throw new ReceiverError(`Missing chunks ${missing.join(", ")}`, 409);
+      }
+      return this.complete(session);
+    });
+  }
+
+  // Dedupe lookup: answer with the stored file that has the same content hash, if there is one
+  public async exists(
+    body: RequestBody,
+    headers: ReceiverHeaders = {}
+  ): Promise<ReceiverResult> {
+    const keys = this.payloadOptions;
+    const fields = this.readFields(body, headers);
+    const fileChecksum = fields[keys.fileChecksum!];
+    if (!fileChecksum) {
+      throw new ReceiverError(`Missing ${keys.fileChecksum}`, 400);
+    }
+
+    const duplicate = await this.options.findDuplicate?.(
+      fileChecksum.toLowerCase(),
+      fields
+    );
+    return {
+      status: 200,
+      body: duplicate ? { ...duplicate, exists: true } : { exists: false },
+    };
+  }
+
+  // Remove uploads that received nothing for longer than expireAfter, returns how many were removed
+  public async expireSessions() {
+    const now = Date.now();
+    const expired = (await this.storage.listSessions()).filter(
+      (session) => now - session.updatedAt > this.options.expireAfter
+    );
+
+    await Promise.all(
+      expired.map((session) =>
+        this.withLock(session.uploadId, () =>
+          this.storage.remove(session.uploadId)
+        )
+      )
+    );
+    return expired.length;
+  }
+
+  // Check the file checksum, assemble the file and replace its chunks with the result
+  private async complete(session: ReceiverSession): Promise<ReceiverResult> {
+    if (session.fileChecksum) {
+      const hasher = createHasher(this.options.checksumAlgorithm);
+      for (let index = 0; index < session.totalChunks!; index++) {
+        hasher.update(await this.storage.readChunk(session.uploadId, index));
+      }
+      if (hasher.digest() !== session.fileChecksum.toLowerCase()) {
+        throw new ReceiverError(
+          "File checksum mismatch",
+          this.options.mismatchStatus
+        );
+      }
+    }
+
+    const stored = await this.storage.assemble(session);
+    const file: ReceivedFile = {
+      ...stored,
+      uploadId: session.uploadId,
+      fileName: session.fileName,
+      fileType: session.fileType,
+      lastModified: session.lastModified,
+      metadata: session.metadata,
+      fileChecksum: session.fileChecksum?.toLowerCase(),
+    };
+    const body = await this.options.onComplete?.(file);
+    const result: ReceiverResult = {
+      status: 201,
+      body:
+        body !== undefined
+          ? body
+          : {
+              uploadId: file.uploadId,
+              completed: true,
+              fileName: file.fileName,
+              size: file.size,
+              path: file.path,
+            },
+    };
+
+    // Keep the result until the session expires, for chunks that were in flight and retried requests
+    await this.storage.remove(session.uploadId);
+    await this.storage.writeSession({ ...session, completed: result });
+    this.expireSessions().catch(() => undefined); // Clean up abandoned uploads whenever one completes
+
+    return result;
+  }
+
+  // Merge the fields of a request into the stored session
+  private updateSession(
+    stored: ReceiverSession | undefined,
+    uploadId: string,
+    fields: Record<string, string>
+  ): ReceiverSession {
+    const keys = this.payloadOptions;
+    const now = Date.now();
+    const session: ReceiverSession = stored ?? {
+      uploadId,
+      fileName: uploadId,
+      metadata: {},
+      handshake: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    session.fileName = fields[keys.fileName!] ?? session.fileName;
+    session.fileSize = toNumber(fields[keys.fileSize!]) ?? session.fileSize;
+    session.fileType = fields[keys.fileType!] ?? session.fileType;
+    session.lastModified =
+      toNumber(fields[keys.lastModified!]) ?? session.lastModified;
+    const totalChunks = fields[keys.totalChunk!];
+    if (totalChunks !== undefined) {
+      session.totalChunks = parseIndex(totalChunks, keys.totalChunk!);
+      if (session.totalChunks > this.options.maxChunks) {
+        throw new ReceiverError("Too many chunks", 413); // The missing chunks are listed up to the total
+      }
+    }
+    session.fileChecksum = fields[keys.fileChecksum!] ?? session.fileChecksum;
+    session.updatedAt = now;
+
+    // Fields that are not payload keys are the upload metadata
+    const payloadKeys = new Set(Object.values(keys));
+    Object.entries(fields).forEach(([key, value]) => {
+      if (!payloadKeys.has(key)) session.metadata[key] = value;
+    });
+
+    return session;
+  }
+
+  // String fields of a multipart or JSON body, payload keys may also be sent as headers
+  private readFields(body: RequestBody, headers: ReceiverHeaders) {
+    const fields: Record<string, string> = {};
+    const entries =
+      body instanceof FormData ? [...body.entries()] : Object.entries(body);
+    entries.forEach(([key, value]) => {
+      if (typeof value === "string" || typeof value === "number") {
+        fields[key] = value.toString();
+      }
+    });
+
+    Object.values(this.payloadOptions).forEach((key) => {
+      const value = readHeader(headers, key!);
+      if (fields[key!] === undefined && value !== undefined) {
+        fields[key!] = value;
+      }
+    });
+
+    const metadata = readHeader(headers, "Upload-Metadata");
+    return metadata ? { ...decodeMetadata(metadata), ...fields } : fields;
+  }
+
+  // Run tasks of the same upload one after another
+  private async withLock<T>(uploadId: string, task: () => Promise<T>) {
+    const previous = this.locks.get(uploadId) ?? Promise.resolve();
+    const current = previous.then(task);
+    const settled = current.catch(() => undefined);
+    this.locks.set(uploadId, settled);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(uploadId) === settled) this.locks.delete(uploadId);
+    }
+  }
+}
+
+// Chunk indexes below totalChunks that are not stored, undefined while the total is unknown
+function missingChunks(session: ReceiverSession, uploadedChunks: number[]) {
+  if (session.totalChunks === undefined) return undefined;
+
+  const uploaded = new Set(uploadedChunks);
+  return Array.from(
+    { length: session.totalChunks },
+    (_, index) => index
+  ).filter((index) => !uploaded.has(index));
+}
+
+async function decode(
+  data: Uint8Array,
+  encoding: string | undefined,
+  key: string,
+  maxChunkSize: number | undefined
+) {
+  if (!encoding) return data;
+
+  if (!encodings.includes(encoding)) {
+    throw new ReceiverError(`Unsupported ${key} ${encoding}`, 415);
+  }
+  try {
+    return await decompressChunk(
+      data,
+      encoding as CompressionFormat,
+      maxChunkSize
+    );
+  } catch (error) {
+    if (error instanceof ReceiverError) throw error; // Inflated past the limit
+    throw new ReceiverError("Chunk could not be decompressed", 400);
+  }
+}
+
+function parseIndex(value: string, key: string) {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new ReceiverError(`Invalid ${key}`, 400);
+  }
+  return index;
+}
+
+function toNumber(value: string | undefined) {
+  const number = Number(value);
+  return value === undefined || Number.isNaN(number) ? undefined : number;
+}
+
+function readHeader(headers: ReceiverHeaders, name: string) {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
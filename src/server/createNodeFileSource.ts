@@ -0,0 +1,32 @@
+import { open, stat } from "node:fs/promises";
+import { basename } from "node:path";
+import type { RandomAccessSource } from "../types";
+
+// Source for a file on disk in Node, read by byte range without loading the whole file
+export default async function createNodeFileSource(
+  path: string,
+  fileName?: string
+): Promise<RandomAccessSource> {
+  const stats = await stat(path);
+
+  return {
+    kind: "random",
+    name: fileName ?? basename(path),
+    type: "",
+    size: stats.size,
+    lastModified: Math.floor(stats.mtimeMs),
+    async read(start, end) {
+      const handle = await open(path, "r");
+      try {
+        const length = Math.max(Math.min(end, stats.size) - start, 0);
+        const { buffer, bytesRead } = await handle.read({
+          buffer: new Uint8Array(length),
+          position: start,
+        });
+        return new Blob([buffer.subarray(0, bytesRead)]);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import readForm from "./readForm";
+import readJson from "./readJson";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type UploadReceiver from "./UploadReceiver";
+import type { ReceiverAction, ReceiverResult } from "../types";
+
+type NodeRequest = IncomingMessage & { body?: unknown }; // Express sets body when a body parser ran
+
+// Request handler for Node http servers, also usable as Express middleware
+export default function createNodeHandler(
+  receiver: UploadReceiver,
+  action: ReceiverAction = "chunk"
+) {
+  return async (
+    req: NodeRequest,
+    res: ServerResponse,
+    next?: (error?: unknown) => void
+  ) => {
+    let result: ReceiverResult;
+    try {
+      result = await receiver.handle(
+        action,
+        readBody(req, receiver.maxBodySize),
+        req.headers
+      );
+    } catch (error) {
+      if (next) return next(error); // Let Express error handlers answer
+      result = { status: 500, body: { message: "Upload failed" } };
+    }
+
+    res.statusCode = result.status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(result.body ?? null));
+  };
+}
+
+function readBody(req: NodeRequest, maxBytes: number | undefined) {
+  const contentType = req.headers["content-type"] ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    return readForm(req, contentType, {
+      contentLength: req.headers["content-length"],
+      maxBytes,
+    });
+  }
+  if (typeof req.body === "object" && req.body !== null) {
+    return req.body as Record<string, unknown>; // Already parsed by express.json()
+  }
+  return readJson(req);
+}
@@ -0,0 +1,35 @@
+import ReceiverError from "./ReceiverError";
+import type { CompressionFormat } from "../types";
+
+// Decompress a chunk with DecompressionStream, so the receiver needs no Node modules
+export default async function decompressChunk(
+  data: Uint8Array,
+  format: CompressionFormat,
+  maxOutputLength?: number
+) {
+  const reader = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (maxOutputLength !== undefined && length > maxOutputLength) {
+      await reader.cancel(); // A small chunk must not inflate past the limit
+      throw new ReceiverError("Chunk is too large", 413);
+    }
+    parts.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
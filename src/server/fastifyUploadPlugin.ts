@@ -0,0 +1,63 @@
+import readForm from "./readForm";
+import type { Readable } from "node:stream";
+import type UploadReceiver from "./UploadReceiver";
+import type { ReceiverAction, ReceiverHeaders } from "../types";
+
+// The parts of the Fastify API the plugin uses, so fastify is not a dependency
+type FastifyRequest = { body: unknown; headers: ReceiverHeaders };
+type FastifyReply = {
+  code(status: number): FastifyReply;
+  send(body: unknown): FastifyReply;
+};
+type FastifyInstance = {
+  addContentTypeParser(
+    contentType: string,
+    parser: (request: FastifyRequest, payload: Readable) => Promise<unknown>
+  ): void;
+  post(
+    url: string,
+    handler: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>
+  ): void;
+};
+
+// Fastify plugin that registers the chunk route, and the handshake and dedupe routes when their urls are given
+export default async function fastifyUploadPlugin(
+  fastify: FastifyInstance,
+  {
+    receiver,
+    url,
+    initUrl,
+    finalizeUrl,
+    existsUrl,
+  }: {
+    receiver: UploadReceiver;
+    url: string;
+    initUrl?: string;
+    finalizeUrl?: string;
+    existsUrl?: string;
+  }
+) {
+  // Keep multipart bodies as streams, the chunk route parses them
+  fastify.addContentTypeParser(
+    "multipart/form-data",
+    async (_request, payload) => payload
+  );
+
+  const route = (path: string, action: ReceiverAction) =>
+    fastify.post(path, async (request, reply) => {
+      const contentType = request.headers["content-type"]?.toString() ?? "";
+      const body = contentType.startsWith("multipart/form-data")
+        ? readForm(request.body as Readable, contentType, {
+            contentLength: request.headers["content-length"]?.toString(),
+            maxBytes: receiver.maxBodySize,
+          })
+        : ((request.body ?? {}) as Record<string, unknown>); // Parsed by the JSON parser of Fastify
+      const result = await receiver.handle(action, body, request.headers);
+      return reply.code(result.status).send(result.body);
+    });
+
+  route(url, "chunk");
+  if (initUrl) route(initUrl, "init");
+  if (finalizeUrl) route(finalizeUrl, "finalize");
+  if (existsUrl) route(existsUrl, "exists");
+}
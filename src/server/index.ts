@@ -0,0 +1,11 @@
+import UploadReceiver from "./UploadReceiver";
+
+export { default as ReceiverError } from "./ReceiverError";
+export { default as MemoryChunkStorage } from "./MemoryChunkStorage";
+export { default as FileSystemChunkStorage } from "./FileSystemChunkStorage";
+export { default as createNodeHandler } from "./createNodeHandler";
+export { default as fastifyUploadPlugin } from "./fastifyUploadPlugin";
+export { default as createNodeFileSource } from "./createNodeFileSource";
+
+export { UploadReceiver };
+export default UploadReceiver;
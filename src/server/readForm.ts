@@ -0,0 +1,54 @@
+import { Readable } from "node:stream";
+import ReceiverError from "./ReceiverError";
+
+// Parse a multipart request body with the FormData parser built into Node, rejecting bodies over maxBytes
+export default async function readForm(
+  body: Readable,
+  contentType: string,
+  {
+    contentLength,
+    maxBytes,
+  }: { contentLength?: string | undefined; maxBytes?: number | undefined } = {}
+) {
+  if (maxBytes !== undefined && Number(contentLength) > maxBytes) {
+    body.resume(); // Drain the body so the connection can answer
+    throw new ReceiverError("Request body is too large", 413);
+  }
+
+  // Count the bytes as they arrive, the Content-Length may be missing or wrong
+  let received = 0;
+  let tooLarge = false;
+  const stream = Readable.toWeb(body) as ReadableStream<Uint8Array>;
+  const limited =
+    maxBytes === undefined
+      ? stream
+      : stream.pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(part, controller) {
+              received += part.byteLength;
+              if (received > maxBytes) {
+                tooLarge = true;
+                controller.error(
+                  new ReceiverError("Request body is too large", 413)
+                );
+                return;
+              }
+              controller.enqueue(part);
+            },
+          })
+        );
+
+  const request = new Request("http://localhost", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: limited,
+    duplex: "half", // Required for stream bodies
+  } as RequestInit);
+
+  try {
+    return await request.formData();
+  } catch {
+    if (tooLarge) throw new ReceiverError("Request body is too large", 413);
+    throw new ReceiverError("Invalid multipart body", 400);
+  }
+}
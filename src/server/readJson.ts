@@ -0,0 +1,19 @@
+import type { Readable } from "node:stream";
+import ReceiverError from "./ReceiverError";
+
+// Read a JSON request body, an empty body is an empty object
+export default async function readJson(body: Readable) {
+  const parts: Uint8Array[] = [];
+  for await (const part of body) parts.push(part);
+
+  const text = Buffer.concat(parts).toString("utf8");
+  try {
+    const json: unknown = text ? JSON.parse(text) : {};
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      throw new Error("Not an object");
+    }
+    return json as Record<string, unknown>;
+  } catch {
+    throw new ReceiverError("Invalid JSON body", 400);
+  }
+}
@@ -0,0 +1,21 @@
+import type { RandomAccessSource } from "../types";
+
+// Source for browser File and Blob objects and in-memory byte buffers
+export default function createBlobSource(
+  input: Blob | ArrayBuffer | Uint8Array,
+  fileName?: string
+): RandomAccessSource {
+  const blob = input instanceof Blob ? input : new Blob([input as BlobPart]);
+  const file =
+    typeof File !== "undefined" && blob instanceof File ? blob : undefined;
+
+  return {
+    kind: "random",
+    name: fileName ?? file?.name ?? "blob",
+    type: blob.type,
+    size: blob.size,
+    lastModified: file?.lastModified ?? 0, // Keep the fingerprint stable for plain Blobs
+    read: async (start, end) =>
+      start === 0 && end >= blob.size ? blob : blob.slice(start, end), // Keep the File itself when it is read whole
+  };
+}
@@ -0,0 +1,26 @@
+import createBlobSource from "./createBlobSource";
+import createStreamSource from "./createStreamSource";
+import isRandomAccessSource from "./isRandomAccessSource";
+import type { FileSource, UploadSource } from "../types";
+
+// Normalize any supported upload input into a source the upload types can read
+export default async function createSource(
+  input: UploadSource,
+  fileName?: string
+): Promise<FileSource> {
+  if (isRandomAccessSource(input)) {
+    return fileName
+      ? { ...input, name: fileName, read: input.read.bind(input) }
+      : input; // Created by the caller, like a Node file from the server entry
+  }
+
+  if (
+    input instanceof Blob ||
+    input instanceof ArrayBuffer ||
+    ArrayBuffer.isView(input)
+  ) {
+    return createBlobSource(input, fileName);
+  }
+
+  return createStreamSource(input, fileName); // ReadableStream or Node Readable
+}
@@ -0,0 +1,74 @@
+import type { StreamSource } from "../types";
+
+// Read a WHATWG ReadableStream or any async iterable (such as a Node Readable) piece by piece
+async function* readPieces(
+  input: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+) {
+  if (!(input instanceof ReadableStream)) {
+    yield* input;
+    return;
+  }
+
+  const reader = input.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Fill chunks of chunkSize bytes, holding one back to know which chunk is the last
+async function* fillChunks(
+  input: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  chunkSize: number | (() => number)
+) {
+  const nextSize =
+    typeof chunkSize === "function" ? chunkSize : () => chunkSize; // Adaptive sizes are read for every new chunk
+  let buffer = new Uint8Array(nextSize());
+  let buffered = 0;
+  let pending: Uint8Array<ArrayBuffer> | undefined; // Full chunk waiting for more data or the end of the stream
+
+  for await (const piece of readPieces(input)) {
+    for (let offset = 0; offset < piece.length; ) {
+      if (pending) {
+        yield { chunk: pending, isLast: false };
+        pending = undefined;
+      }
+
+      const size = Math.min(buffer.length - buffered, piece.length - offset);
+      buffer.set(piece.subarray(offset, offset + size), buffered);
+      buffered += size;
+      offset += size;
+
+      if (buffered === buffer.length) {
+        pending = buffer;
+        buffer = new Uint8Array(nextSize());
+        buffered = 0;
+      }
+    }
+  }
+
+  if (buffered > 0) {
+    yield { chunk: buffer.subarray(0, buffered), isLast: true };
+  } else {
+    yield { chunk: pending ?? new Uint8Array(0), isLast: true };
+  }
+}
+
+// Source for streams whose length may not be known until they end
+export default function createStreamSource(
+  input: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  fileName?: string
+): StreamSource {
+  return {
+    kind: "stream",
+    name: fileName ?? "blob",
+    type: "",
+    lastModified: 0,
+    chunks: (chunkSize) => fillChunks(input, chunkSize),
+  };
+}
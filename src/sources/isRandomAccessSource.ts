@@ -0,0 +1,13 @@
+import type { RandomAccessSource } from "../types";
+
+// Whether the input is a source created by the caller, read by byte range
+export default function isRandomAccessSource(
+  input: unknown
+): input is RandomAccessSource {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    (input as RandomAccessSource).kind === "random" &&
+    typeof (input as RandomAccessSource).read === "function"
+  );
+}
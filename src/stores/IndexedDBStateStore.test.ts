@@ -0,0 +1,25 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import IndexedDBStateStore from "./IndexedDBStateStore";
+
+const state = { uploadId: "u1", uploadedChunks: [0, 2] };
+
+describe("IndexedDBStateStore", () => {
+  it("keeps the state of every storeName of a database apart", async () => {
+    const photos = new IndexedDBStateStore("shared", "photos");
+    const videos = new IndexedDBStateStore("shared", "videos");
+
+    await photos.set("file", state);
+    await videos.set("file", { uploadId: "u2", uploadedChunks: [1] });
+
+    await expect(photos.get("file")).resolves.toEqual(state);
+    await expect(videos.get("file")).resolves.toEqual({
+      uploadId: "u2",
+      uploadedChunks: [1],
+    });
+
+    await photos.remove("file");
+    await expect(photos.get("file")).resolves.toBeUndefined();
+    await expect(videos.get("file")).resolves.toBeDefined();
+  });
+});
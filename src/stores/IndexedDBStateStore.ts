@@ -0,0 +1,74 @@
+import type { UploadState, UploadStateStore } from "../types";
+
+const DATABASE_VERSION = 1;
+const OBJECT_STORE = "uploads"; // Shared by every storeName, which prefixes the keys
+
+// Keep acknowledged chunks in IndexedDB, suited for many or very large uploads
+export default class IndexedDBStateStore implements UploadStateStore {
+  private databaseName: string;
+  private storeName: string;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(databaseName = "upload-chunkfile", storeName = "uploads") {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  public async get(fingerprint: string) {
+    const state = await this.run<UploadState | number[] | undefined>(
+      "readonly",
+      (store) => store.get(this.key(fingerprint))
+    );
+    return state && !Array.isArray(state) ? state : undefined; // Chunks without their upload id cannot be resumed
+  }
+
+  public async set(fingerprint: string, state: UploadState) {
+    await this.run("readwrite", (store) =>
+      store.put(state, this.key(fingerprint))
+    );
+  }
+
+  public async remove(fingerprint: string) {
+    await this.run("readwrite", (store) => store.delete(this.key(fingerprint)));
+  }
+
+  // Open the database once and reuse the connection
+  private open() {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+        request.addEventListener("upgradeneeded", () =>
+          request.result.createObjectStore(OBJECT_STORE)
+        );
+        request.addEventListener("success", () => {
+          request.result.addEventListener("versionchange", () => {
+            request.result.close(); // Let a newer version upgrade the database
+            this.database = undefined;
+          });
+          resolve(request.result);
+        });
+        request.addEventListener("error", () => reject(request.error));
+      });
+    }
+    return this.database;
+  }
+
+  // Run a single request inside its own transaction
+  private async run<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ) {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(
+        database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE)
+      );
+      request.addEventListener("success", () => resolve(request.result));
+      request.addEventListener("error", () => reject(request.error));
+    });
+  }
+
+  private key(fingerprint: string) {
+    return `${this.storeName}:${fingerprint}`;
+  }
+}
@@ -0,0 +1,45 @@
+import type { UploadState, UploadStateStore } from "../types";
+
+// Keep acknowledged chunks in localStorage so they survive page reloads
+export default class LocalStorageStateStore implements UploadStateStore {
+  private prefix: string;
+
+  constructor(prefix = "upload-chunkfile") {
+    this.prefix = prefix;
+  }
+
+  public async get(fingerprint: string) {
+    const value = localStorage.getItem(this.key(fingerprint));
+    if (!value) return undefined;
+
+    try {
+      const state = JSON.parse(value);
+      if (
+        typeof state?.uploadId !== "string" ||
+        !Array.isArray(state.uploadedChunks)
+      ) {
+        return undefined; // Chunks without their upload id cannot be resumed
+      }
+      return {
+        uploadId: state.uploadId,
+        uploadedChunks: state.uploadedChunks.filter(
+          (chunk: unknown): chunk is number => typeof chunk === "number"
+        ),
+      };
+    } catch {
+      return undefined; // Ignore corrupted entries
+    }
+  }
+
+  public async set(fingerprint: string, state: UploadState) {
+    localStorage.setItem(this.key(fingerprint), JSON.stringify(state));
+  }
+
+  public async remove(fingerprint: string) {
+    localStorage.removeItem(this.key(fingerprint));
+  }
+
+  private key(fingerprint: string) {
+    return `${this.prefix}:${fingerprint}`;
+  }
+}
@@ -0,0 +1,21 @@
+import type { UploadState, UploadStateStore } from "../types";
+
+// Keep acknowledged chunks in memory, lost when the page is closed
+export default class MemoryStateStore implements UploadStateStore {
+  private state: Map<string, UploadState> = new Map();
+
+  public async get(fingerprint: string) {
+    return this.state.get(fingerprint);
+  }
+
+  public async set(fingerprint: string, state: UploadState) {
+    this.state.set(fingerprint, {
+      ...state,
+      uploadedChunks: [...state.uploadedChunks],
+    });
+  }
+
+  public async remove(fingerprint: string) {
+    this.state.delete(fingerprint);
+  }
+}
@@ -0,0 +1,340 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import UploadChunkFile from "../UploadChunkFile";
+import MockUploadServer from "./MockUploadServer";
+import MemoryStateStore from "../stores/MemoryStateStore";
+import { ResponseParseError } from "../utils/Errors";
+import type { Options } from "../types";
+
+const bytes = (size: number) =>
+  Uint8Array.from({ length: size }, (_, index) => index % 251);
+
+const createFile = (size = 4096) => new File([bytes(size)], "data.bin");
+
+const createUploader = (server: MockUploadServer, options?: Options) =>
+  new UploadChunkFile({
+    chunkSize: 1024,
+    retryDelay: 0,
+    ...options,
+    transport: server,
+  });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("MockUploadServer", () => {
+  it("records every chunk and assembles the file", async () => {
+    const server = new MockUploadServer();
+    const file = createFile();
+
+    await createUploader(server, { maxParallel: 2 }).uploadFile({
+      file,
+      uploadUrl: "/upload",
+    });
+
+    expect(server.chunkRequests().map((request) => request.chunkIndex)).toEqual(
+      [0, 1, 2, 3]
+    );
+    expect(server.chunkRequests(2)[0]).toMatchObject({
+      startOffset: 2048,
+      endOffset: 3072,
+      fields: { fileName: "data.bin", totalChunk: "4" },
+    });
+    expect(await server.readFile()).toEqual(bytes(4096));
+  });
+});
+
+describe("README scenario", () => {
+  it("survives every injected fault and reports a malformed response", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({
+      latency: 50,
+      bytesPerSecond: 100_000,
+      progressSteps: 4,
+    });
+    const uploader = createUploader(server, { maxParallel: 3 });
+    const file = createFile(8 * 1024);
+
+    server.inject({ type: "status", status: 503, chunkIndex: 2 });
+    server.inject({ type: "drop", chunkIndex: 4, afterBytes: 512 });
+    server.inject({ type: "delay", delay: 5000, times: 3 });
+
+    const result = uploader.uploadFile({ file, uploadUrl: "/upload" });
+    await vi.advanceTimersByTimeAsync(60000);
+    await result;
+
+    expect(await server.readFile()).toEqual(bytes(8 * 1024));
+    expect(server.chunkRequests(2).map((request) => request.attempt)).toEqual([
+      1, 2,
+    ]);
+    expect(server.maxInFlight).toBeLessThanOrEqual(3);
+
+    server.inject({ type: "malformed", url: "/upload" });
+    const failed = uploader
+      .uploadFile({ file, uploadUrl: "/upload" })
+      .catch((error) => error);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(await failed).toBeInstanceOf(ResponseParseError);
+  });
+});
+
+describe("retries through the mock server", () => {
+  it("retries a chunk that failed with a server error", async () => {
+    const server = new MockUploadServer();
+    server.inject({ type: "status", status: 503, chunkIndex: 2 });
+
+    await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+
+    expect(
+      server
+        .chunkRequests(2)
+        .map(({ attempt, status }) => ({ attempt, status }))
+    ).toEqual([
+      { attempt: 1, status: 503 },
+      { attempt: 2, status: 200 },
+    ]);
+    expect(await server.readFile()).toEqual(bytes(4096));
+  });
+
+  it("retries a chunk whose connection dropped", async () => {
+    const server = new MockUploadServer();
+    server.inject({ type: "drop", chunkIndex: 1, afterBytes: 100 });
+
+    await createUploader(server).uploadFile({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+
+    expect(server.chunkRequests(1).map((request) => request.outcome)).toEqual([
+      "dropped",
+      "completed",
+    ]);
+  });
+
+  it("fails the chunk once its retries are used up", async () => {
+    const server = new MockUploadServer();
+    server.inject({ type: "status", status: 500, chunkIndex: 0, times: 3 });
+
+    await expect(
+      createUploader(server, { maxRetries: 2 }).uploadFile({
+        file: createFile(),
+        uploadUrl: "/upload",
+      })
+    ).rejects.toMatchObject({ chunkIndex: 0, attempt: 3 });
+    expect(server.chunkRequests(0)).toHaveLength(3);
+    expect(server.files).toHaveLength(0);
+  });
+
+  it("rejects a malformed success response", async () => {
+    const server = new MockUploadServer();
+    server.inject({ type: "malformed", chunkIndex: 0 });
+
+    await expect(
+      createUploader(server, { maxRetries: 0 }).uploadFile({
+        file: createFile(1024),
+        uploadUrl: "/upload",
+      })
+    ).rejects.toMatchObject({ name: "ResponseParseError" });
+  });
+});
+
+describe("abort through the mock server", () => {
+  it("cancels the requests in flight", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({ latency: 1000 });
+    const task = createUploader(server, { maxParallel: 2 }).createUpload({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+    const result = task.result.catch((error) => error);
+
+    await vi.advanceTimersByTimeAsync(500);
+    task.cancel();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toMatchObject({ name: "UploadAbortedError" });
+    expect(server.requests.map((request) => request.outcome)).toEqual([
+      "aborted",
+      "aborted",
+    ]);
+    expect(server.files).toHaveLength(0);
+  });
+
+  it("sends aborted chunks again after a pause", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({ latency: 1000 });
+    const task = createUploader(server, { maxParallel: 2 }).createUpload({
+      file: createFile(),
+      uploadUrl: "/upload",
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    task.pause({ abortInFlight: true });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task.state).toBe("paused");
+
+    task.resume();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    await expect(task.result).resolves.toMatchObject({
+      response: { completed: true },
+    });
+    expect(server.chunkRequests(0).map((request) => request.outcome)).toEqual([
+      "aborted",
+      "completed",
+    ]);
+    expect(await server.readFile()).toEqual(bytes(4096));
+  });
+
+  it.each(["/upload/init", "/upload/finalize"])(
+    "sends the handshake request to %s again after a pause",
+    async (url) => {
+      vi.useFakeTimers();
+      const server = new MockUploadServer({
+        latency: 1000,
+        initUrl: "/upload/init",
+        finalizeUrl: "/upload/finalize",
+      });
+      const task = createUploader(server, {
+        maxParallel: 2,
+        handshake: { initUrl: "/upload/init", finalizeUrl: "/upload/finalize" },
+      }).createUpload({ file: createFile(2048), uploadUrl: "/upload" });
+      const handshakeRequests = () =>
+        server.requests.filter((request) => request.url === url);
+
+      while (handshakeRequests().length === 0) {
+        await vi.advanceTimersByTimeAsync(100);
+      }
+      task.pause({ abortInFlight: true });
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(task.state).toBe("paused");
+
+      task.resume();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      await expect(task.result).resolves.toMatchObject({
+        response: { completed: true },
+      });
+      expect(handshakeRequests().map((request) => request.outcome)).toEqual([
+        "aborted",
+        "completed",
+      ]);
+      expect(await server.readFile()).toEqual(bytes(2048));
+    }
+  );
+
+  it("asks for a duplicate again after a pause", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({
+      latency: 1000,
+      dedupeUrl: "/upload/exists",
+    });
+    const task = createUploader(server, {
+      dedupe: { url: "/upload/exists" },
+    }).createUpload({ file: createFile(2048), uploadUrl: "/upload" });
+    const lookups = () =>
+      server.requests.filter((request) => request.url === "/upload/exists");
+
+    while (lookups().length === 0) {
+      await vi.advanceTimersByTimeAsync(100);
+    }
+    task.pause({ abortInFlight: true });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task.state).toBe("paused");
+
+    task.resume();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    await expect(task.result).resolves.toMatchObject({
+      response: { completed: true },
+    });
+    expect(lookups().map((request) => request.outcome)).toEqual([
+      "aborted",
+      "completed",
+    ]);
+    expect(server.chunkRequests(0)).toHaveLength(1);
+  });
+});
+
+describe("resume through the mock server", () => {
+  it("resumes a handshake upload under the stored upload id", async () => {
+    const server = new MockUploadServer({
+      initUrl: "/upload/init",
+      finalizeUrl: "/upload/finalize",
+    });
+    server.inject({ type: "status", status: 500, chunkIndex: 2 });
+    const store = new MemoryStateStore();
+    const options: Options = {
+      maxParallel: 1,
+      maxRetries: 0,
+      handshake: { initUrl: "/upload/init", finalizeUrl: "/upload/finalize" },
+      resume: { store },
+    };
+    const file = createFile();
+
+    await expect(
+      createUploader(server, options).uploadFile({ file, uploadUrl: "/upload" })
+    ).rejects.toMatchObject({ chunkIndex: 2 });
+    const sent = server.requests.length;
+    await createUploader(server, options).uploadFile({
+      file,
+      uploadUrl: "/upload",
+    });
+
+    const inits = server.requests.filter(
+      (request) => request.url === "/upload/init"
+    );
+    expect(inits[1].fields.uploadId).toBe(inits[0].fields.uploadId);
+    expect(
+      server.requests
+        .slice(sent)
+        .filter((request) => request.chunk)
+        .map((request) => request.chunkIndex)
+    ).toEqual([2, 3]);
+    expect(await server.readFile()).toEqual(bytes(4096));
+  });
+});
+
+describe("concurrency through the mock server", () => {
+  it("keeps at most maxParallel requests in flight", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({ latency: 100 });
+    const result = createUploader(server, { maxParallel: 3 }).uploadFile({
+      file: createFile(10 * 1024),
+      uploadUrl: "/upload",
+    });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    await result;
+
+    expect(server.maxInFlight).toBe(3);
+    expect(server.chunkRequests()).toHaveLength(10);
+  });
+
+  it("reports progress in steps timed by bytesPerSecond", async () => {
+    vi.useFakeTimers();
+    const server = new MockUploadServer({
+      bytesPerSecond: 1024,
+      progressSteps: 4,
+    });
+    const onProgressChange = vi.fn();
+    const result = createUploader(server).uploadFile({
+      file: createFile(1024),
+      uploadUrl: "/upload",
+      onProgressChange,
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onProgressChange).toHaveBeenLastCalledWith(0);
+    await vi.advanceTimersByTimeAsync(200); // The form fields make the body a bit over 1024 bytes
+    expect(onProgressChange).toHaveBeenLastCalledWith(25);
+    await vi.advanceTimersByTimeAsync(5000);
+    await result;
+
+    const steps = new Set(onProgressChange.mock.calls.map(([value]) => value));
+    expect([...steps]).toEqual([0, 25, 50, 75, 100]);
+  });
+});
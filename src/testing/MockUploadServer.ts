@@ -0,0 +1,331 @@
+import UploadReceiver from "../server/UploadReceiver";
+import resolvePayloadOptions from "../utils/resolvePayloadOptions";
+import { NetworkError, UploadAbortedError } from "../utils/Errors";
+import type {
+  MockFault,
+  MockRequest,
+  MockUploadServerOptions,
+  PayloadOptions,
+  ReceivedFile,
+  ReceiverResult,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../types";
+
+// In-memory upload server to pass as the transport in tests, records every request and assembles the files
+export default class MockUploadServer implements Transport {
+  public requests: MockRequest[] = [];
+  public files: ReceivedFile[] = [];
+  public maxInFlight = 0; // Most requests in flight at the same time
+  private inFlight = 0;
+  private faults: MockFault[] = [];
+  private receiver!: UploadReceiver;
+  private createReceiver: () => UploadReceiver;
+  private payloadOptions: PayloadOptions;
+  private options: {
+    initUrl?: string;
+    finalizeUrl?: string;
+    dedupeUrl?: string;
+    latency: number;
+    bytesPerSecond?: number;
+    progressSteps: number;
+  };
+
+  constructor(options?: MockUploadServerOptions) {
+    this.payloadOptions = resolvePayloadOptions(options?.payloadOptions); // Same keys as the client
+    this.createReceiver = () =>
+      new UploadReceiver({
+        ...options?.receiver,
+        payloadOptions: options?.payloadOptions,
+        onComplete: (file) => {
+          this.files.push(file);
+          return options?.receiver?.onComplete?.(file);
+        },
+      });
+    this.receiver = this.createReceiver();
+
+    this.options = {
+      initUrl: options?.initUrl, // JSON requests to this url are handshake init requests
+      finalizeUrl: options?.finalizeUrl, // JSON requests to this url are handshake finalize requests
+      dedupeUrl: options?.dedupeUrl, // JSON requests to this url are dedupe lookups
+      latency: options?.latency ?? 0, // Default responses are sent without delay
+      bytesPerSecond: options?.bytesPerSecond, // Default bodies are sent at once
+      progressSteps: options?.progressSteps ?? 4, // Default progress events per request
+    };
+  }
+
+  // Add a fault for the next matching requests
+  public inject(fault: MockFault) {
+    this.faults.push({ ...fault, times: fault.times ?? 1 });
+  }
+
+  public clearFaults() {
+    this.faults = [];
+  }
+
+  // Requests that carried a chunk, optionally only those of one chunk
+  public chunkRequests(chunkIndex?: number) {
+    return this.requests.filter(
+      (request) =>
+        request.chunk &&
+        (chunkIndex === undefined || request.chunkIndex === chunkIndex)
+    );
+  }
+
+  // Bytes of an assembled file, the last one when no upload id is given
+  public async readFile(uploadId?: string) {
+    const file =
+      uploadId === undefined
+        ? this.files[this.files.length - 1]
+        : this.files.find((item) => item.uploadId === uploadId);
+    if (!file?.blob) {
+      throw new Error(`No file was assembled for upload ${uploadId ?? ""}`);
+    }
+    return new Uint8Array(await file.blob.arrayBuffer());
+  }
+
+  // Forget requests, files, faults and stored chunks
+  public reset() {
+    this.receiver = this.createReceiver();
+    this.requests = [];
+    this.files = [];
+    this.faults = [];
+    this.maxInFlight = 0;
+  }
+
+  public async send(request: TransportRequest): Promise<TransportResponse> {
+    const record = await this.record(request);
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+
+    try {
+      const response = await this.respond(request, record);
+      record.status = response.status;
+      record.outcome = "completed";
+      return response;
+    } catch (error) {
+      record.outcome =
+        error instanceof UploadAbortedError ? "aborted" : "dropped";
+      throw error;
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  // Send the body, apply the matching fault and let the receiver answer
+  private async respond(
+    request: TransportRequest,
+    record: MockRequest
+  ): Promise<TransportResponse> {
+    const fault = this.takeFault(record);
+    const total = bodySize(request.body);
+    const sendUntil =
+      fault?.type === "drop"
+        ? Math.min(fault.afterBytes ?? total / 2, total)
+        : total;
+
+    // Report progress in equal steps, timed by bytesPerSecond so fake timers control it
+    const steps = Math.max(this.options.progressSteps, 1);
+    for (let step = 1; step <= steps; step++) {
+      const loaded = Math.round((sendUntil * step) / steps);
+      const previous = Math.round((sendUntil * (step - 1)) / steps);
+      if (this.options.bytesPerSecond) {
+        await wait(
+          ((loaded - previous) / this.options.bytesPerSecond) * 1000,
+          request.signal
+        );
+      }
+      throwIfAborted(request.signal);
+      request.onUploadProgress?.(loaded, total);
+    }
+
+    if (fault?.type === "drop") {
+      throw new NetworkError("Upload failed", {
+        cause: new Error("Connection dropped by the mock server"),
+      });
+    }
+
+    await wait(
+      this.options.latency + (fault?.type === "delay" ? fault.delay : 0),
+      request.signal
+    );
+    throwIfAborted(request.signal);
+
+    if (fault?.type === "status") {
+      return toResponse(
+        {
+          status: fault.status,
+          body: fault.body ?? JSON.stringify({ message: "Mock failure" }),
+        },
+        request,
+        fault.headers
+      );
+    }
+
+    const result = await this.receive(request);
+    if (fault?.type === "malformed") {
+      return toResponse(
+        { status: result.status, body: "{ malformed" },
+        request
+      );
+    }
+    return toResponse(result, request);
+  }
+
+  // Pass the request to the receiver, other requests get a 404
+  private async receive(request: TransportRequest): Promise<ReceiverResult> {
+    const headers = Object.fromEntries(
+      Object.entries(request.headers ?? {}).map(([key, value]) => [
+        key.toLowerCase(),
+        value,
+      ])
+    );
+
+    if (request.body instanceof FormData) {
+      return this.receiver.handle("chunk", request.body, headers);
+    }
+    if (typeof request.body === "string") {
+      const action =
+        request.url === this.options.initUrl
+          ? "init"
+          : request.url === this.options.finalizeUrl
+          ? "finalize"
+          : request.url === this.options.dedupeUrl
+          ? "exists"
+          : undefined;
+      if (action) {
+        return this.receiver.handle(action, JSON.parse(request.body), headers);
+      }
+    }
+    return { status: 404, body: { message: "Not found" } };
+  }
+
+  // Read the fields and chunk of the request before it is sent
+  private async record(request: TransportRequest) {
+    const keys = this.payloadOptions;
+    const fields: Record<string, string> = {};
+    let chunk: Uint8Array | undefined;
+
+    if (request.body instanceof FormData) {
+      for (const [key, value] of request.body.entries()) {
+        if (typeof value === "string") {
+          fields[key] = value;
+        } else if (key === keys.chunkName) {
+          chunk = new Uint8Array(await value.arrayBuffer());
+        }
+      }
+    } else if (request.body instanceof Blob) {
+      chunk = new Uint8Array(await request.body.arrayBuffer()); // tus and s3 send the chunk as the body
+    } else if (typeof request.body === "string") {
+      try {
+        Object.entries(JSON.parse(request.body)).forEach(([key, value]) => {
+          if (typeof value === "string" || typeof value === "number") {
+            fields[key] = value.toString();
+          }
+        });
+      } catch {
+        // Not a JSON body, recorded without fields
+      }
+    }
+
+    const chunkIndex =
+      request.chunkIndex ?? toNumber(fields[keys.currentChunk!]);
+    const record: MockRequest = {
+      method: request.method,
+      url: request.url,
+      headers: { ...request.headers },
+      fields,
+      chunk,
+      chunkIndex,
+      startOffset: toNumber(fields[keys.startOffset!]),
+      endOffset: toNumber(fields[keys.endOffset!]),
+      attempt:
+        this.requests.filter(
+          (item) =>
+            item.method === request.method &&
+            item.url === request.url &&
+            item.chunkIndex === chunkIndex
+        ).length + 1,
+      outcome: "pending",
+    };
+    this.requests.push(record);
+    return record;
+  }
+
+  // First fault that matches the request, used up after its times
+  private takeFault(record: MockRequest) {
+    const fault = this.faults.find(
+      (item) =>
+        (item.chunkIndex === undefined ||
+          item.chunkIndex === record.chunkIndex) &&
+        (item.url === undefined || item.url === record.url)
+    );
+    if (!fault) return undefined;
+
+    fault.times!--;
+    if (fault.times! <= 0) {
+      this.faults = this.faults.filter((item) => item !== fault);
+    }
+    return fault;
+  }
+}
+
+function toResponse(
+  { status, body }: ReceiverResult,
+  request: TransportRequest,
+  headers: Record<string, string> = {}
+): TransportResponse {
+  const text = typeof body === "string" ? body : JSON.stringify(body ?? null);
+  const lowerCaseHeaders = Object.fromEntries(
+    Object.entries({ "Content-Type": "application/json", ...headers }).map(
+      ([key, value]) => [key.toLowerCase(), value]
+    )
+  );
+
+  return {
+    status,
+    responseText: request.responseType === "blob" ? "" : text,
+    responseBlob:
+      request.responseType === "blob" ? new Blob([text]) : undefined,
+    getHeader: (name) => lowerCaseHeaders[name.toLowerCase()] ?? null,
+  };
+}
+
+function bodySize(body: TransportRequest["body"]) {
+  if (body instanceof Blob) return body.size;
+  if (typeof body === "string") return new TextEncoder().encode(body).length;
+  if (body instanceof FormData) {
+    let size = 0;
+    body.forEach((value) => {
+      size += typeof value === "string" ? value.length : value.size;
+    });
+    return size;
+  }
+  return 0;
+}
+
+// Wait on a timer, so tests with fake timers decide when it ends
+function wait(time: number, signal?: AbortSignal) {
+  if (time <= 0) return Promise.resolve();
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadAbortedError("Upload aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, time);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new UploadAbortedError("Upload aborted");
+}
+
+function toNumber(value: string | undefined) {
+  return value === undefined ? undefined : Number(value);
+}
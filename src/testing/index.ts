@@ -0,0 +1,4 @@
+import MockUploadServer from "./MockUploadServer";
+
+export { MockUploadServer };
+export default MockUploadServer;
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFetchTransport } from "./fetchTransport";
+import withTimeouts from "./withTimeouts";
+import { NetworkError, UploadAbortedError } from "../utils/Errors";
+
+function abortError() {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createFetchTransport", () => {
+  it("sends the Blob so the request has a Content-Length, and reports progress on completion", async () => {
+    const fetch = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    const onUploadProgress = vi.fn();
+    const body = new Blob([new Uint8Array(1000)]);
+
+    const transport = createFetchTransport();
+    const response = await transport.send({
+      method: "PUT",
+      url: "https://bucket.test/part",
+      body,
+      onUploadProgress,
+    });
+
+    expect(transport.progressEvents).toBe(false);
+    expect(response).toMatchObject({ status: 200, responseText: "ok" });
+    const init = (fetch.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(init.body).toBe(body);
+    expect(init).not.toHaveProperty("duplex");
+    expect(onUploadProgress).toHaveBeenCalledOnce();
+    expect(onUploadProgress).toHaveBeenCalledWith(1000, 1000);
+  });
+
+  it("maps an abort while reading the response body to UploadAbortedError", async () => {
+    const controller = new AbortController();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        const response = new Response("ok");
+        vi.spyOn(response, "text").mockImplementation(async () => {
+          controller.abort();
+          throw abortError();
+        });
+        return response;
+      })
+    );
+
+    await expect(
+      createFetchTransport().send({
+        method: "POST",
+        url: "/upload",
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(UploadAbortedError);
+  });
+
+  it("maps other failures while reading the response body to NetworkError", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        const response = new Response("ok");
+        vi.spyOn(response, "text").mockRejectedValue(
+          new TypeError("terminated")
+        );
+        return response;
+      })
+    );
+
+    await expect(
+      createFetchTransport().send({ method: "POST", url: "/upload" })
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("withTimeouts", () => {
+  it("does not report a stall when the transport only reports progress on completion", async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        () =>
+          new Promise<Response>((resolve) =>
+            setTimeout(() => resolve(new Response("ok")), 5000)
+          )
+      )
+    );
+
+    const transport = withTimeouts(createFetchTransport(), {
+      stallTimeout: 1000,
+    });
+    const sent = transport.send({
+      method: "POST",
+      url: "/upload",
+      body: new Blob(["chunk"]),
+      onUploadProgress: () => undefined,
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await expect(sent).resolves.toMatchObject({ status: 200 });
+  });
+});
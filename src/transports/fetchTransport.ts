@@ -0,0 +1,153 @@
+import { NetworkError, UploadAbortedError } from "../utils/Errors";
+import type { Transport, TransportRequest } from "../types";
+
+// Detect support for streaming request bodies (fetch with duplex: "half")
+function supportsRequestStreams() {
+  try {
+    let duplexAccessed = false;
+    const hasContentType = new Request("http://localhost", {
+      method: "POST",
+      body: new ReadableStream(),
+      get duplex() {
+        duplexAccessed = true;
+        return "half";
+      },
+    } as RequestInit).headers.has("Content-Type");
+    return duplexAccessed && !hasContentType;
+  } catch {
+    return false;
+  }
+}
+
+// Turn the body into a Blob so its size, and the multipart boundary, are known
+async function toBlob(body: TransportRequest["body"]) {
+  if (body instanceof Blob) return { blob: body, contentType: undefined };
+
+  const encoded = new Response(body ?? null);
+  return {
+    blob: await encoded.blob(),
+    contentType: encoded.headers.get("Content-Type") ?? undefined,
+  };
+}
+
+// Stream the body and report the bytes handed to the network layer
+async function createProgressBody(
+  body: TransportRequest["body"],
+  onUploadProgress: (loaded: number, total: number) => void
+) {
+  const { blob, contentType } = await toBlob(body);
+  let loaded = 0;
+
+  const stream = blob.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        loaded += chunk.byteLength;
+        onUploadProgress(loaded, blob.size);
+      },
+    })
+  );
+
+  return { stream, contentType, total: blob.size };
+}
+
+// Map a failure of fetch or of reading its response to the upload errors
+function toTransportError(error: unknown, signal?: AbortSignal) {
+  if (signal?.aborted || (error as Error)?.name === "AbortError") {
+    return new UploadAbortedError("Upload aborted");
+  }
+  return new NetworkError("Upload failed", { cause: error });
+}
+
+// Transport built on fetch, for runtimes without XMLHttpRequest (Node, Deno, Bun, workers)
+export function createFetchTransport({
+  streamRequestBody = false,
+}: {
+  streamRequestBody?: boolean; // Streamed bodies have no Content-Length and need HTTP/2 in Chrome, so they are opt-in
+} = {}): Transport {
+  let streams: boolean | undefined;
+  const canStream = () =>
+    (streams ??= streamRequestBody && supportsRequestStreams()); // Detect once, on first use
+
+  return {
+    // Progress events only arrive while the body is sent when it is streamed
+    get progressEvents() {
+      return canStream();
+    },
+
+    async send({
+      method,
+      url,
+      headers,
+      body,
+      signal,
+      withCredentials,
+      responseType,
+      onUploadProgress,
+    }) {
+      if (signal?.aborted) {
+        throw new UploadAbortedError("File upload aborted"); // Handle abort signal
+      }
+
+      const init: RequestInit & { duplex?: "half" } = {
+        method,
+        headers: { ...headers },
+        body: body ?? null,
+        signal,
+        credentials: withCredentials ? "include" : "same-origin", // Send cookies with cross-origin requests
+      };
+
+      // Estimate progress from the request stream where the runtime allows it
+      let total: number | undefined;
+      if (canStream() && onUploadProgress && body) {
+        const progressBody = await createProgressBody(body, onUploadProgress);
+        init.body = progressBody.stream;
+        init.duplex = "half";
+        total = progressBody.total;
+        if (progressBody.contentType) {
+          init.headers = {
+            ...headers,
+            "Content-Type": progressBody.contentType,
+          };
+        }
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        throw toTransportError(error, signal);
+      }
+
+      // Without a request stream, report progress once the request completes
+      if (total === undefined && onUploadProgress) {
+        const size = body instanceof Blob ? body.size : 1;
+        onUploadProgress(size, size);
+      }
+
+      // The body is read after the headers arrive, a pause or cancel can still abort it
+      try {
+        if (responseType === "blob") {
+          return {
+            status: response.status,
+            responseText: "",
+            responseBlob: await response.blob(),
+            getHeader: (name) => response.headers.get(name),
+          };
+        }
+
+        return {
+          status: response.status,
+          responseText: method === "HEAD" ? "" : await response.text(),
+          getHeader: (name) => response.headers.get(name),
+        };
+      } catch (error) {
+        throw toTransportError(error, signal);
+      }
+    },
+  };
+}
+
+const fetchTransport = createFetchTransport();
+
+export default fetchTransport;
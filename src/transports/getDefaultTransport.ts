@@ -0,0 +1,14 @@
+import fetchTransport from "./fetchTransport";
+import xhrTransport from "./xhrTransport";
+import type { Transport } from "../types";
+
+// Pick XMLHttpRequest in browsers for native progress events, fetch everywhere else
+export default function getDefaultTransport(
+  transport?: Transport | "xhr" | "fetch"
+): Transport {
+  if (transport === "xhr") return xhrTransport;
+  if (transport === "fetch") return fetchTransport;
+  if (transport) return transport;
+
+  return typeof XMLHttpRequest !== "undefined" ? xhrTransport : fetchTransport;
+}
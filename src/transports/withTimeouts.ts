@@ -0,0 +1,77 @@
+import { TimeoutError } from "../utils/Errors";
+import type { Transport } from "../types";
+
+// Abort a request that runs too long, or whose upload progress stops, with a retryable TimeoutError
+export default function withTimeouts(
+  transport: Transport,
+  { timeout, stallTimeout }: { timeout?: number; stallTimeout?: number }
+): Transport {
+  if (!timeout && !stallTimeout) return transport;
+
+  return {
+    get progressEvents() {
+      return transport.progressEvents;
+    },
+
+    async send(request) {
+      const controller = new AbortController(); // Aborts only this request, the upload continues
+      let timeoutError: TimeoutError | undefined;
+      const abortWith = (error: TimeoutError) => {
+        timeoutError ??= error;
+        controller.abort();
+      };
+
+      // Abort with the upload signal as well
+      const onAbort = () => controller.abort();
+      if (request.signal?.aborted) controller.abort();
+      request.signal?.addEventListener("abort", onAbort, { once: true });
+
+      const timer = timeout
+        ? setTimeout(
+            () =>
+              abortWith(
+                new TimeoutError(`Request timed out after ${timeout} ms`)
+              ),
+            timeout
+          )
+        : undefined;
+
+      // Restart the stall timer on every progress event while the body is sent
+      let stallTimer: ReturnType<typeof setTimeout> | undefined;
+      const watchStall = () => {
+        clearTimeout(stallTimer);
+        stallTimer = setTimeout(
+          () =>
+            abortWith(
+              new TimeoutError(`No upload progress for ${stallTimeout} ms`)
+            ),
+          stallTimeout
+        );
+      };
+      const watchesStall = Boolean(
+        stallTimeout && request.body && transport.progressEvents !== false
+      ); // Without progress events every long request would look stalled
+      if (watchesStall) watchStall();
+
+      try {
+        return await transport.send({
+          ...request,
+          signal: controller.signal,
+          onUploadProgress: watchesStall
+            ? (loaded, total) => {
+                if (loaded < total) watchStall();
+                else clearTimeout(stallTimer); // The body is sent, the server may take its time to answer
+                request.onUploadProgress?.(loaded, total);
+              }
+            : request.onUploadProgress,
+        });
+      } catch (error) {
+        throw timeoutError ?? error; // The transport reports the abort, the timeout is the real cause
+      } finally {
+        clearTimeout(timer);
+        clearTimeout(stallTimer);
+        request.signal?.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { NetworkError, UploadAbortedError } from "../utils/Errors";
+import type { Transport } from "../types";
+
+// Transport built on XMLHttpRequest, with native upload progress events
+const xhrTransport: Transport = {
+  send({
+    method,
+    url,
+    headers,
+    body,
+    signal,
+    withCredentials,
+    responseType,
+    onUploadProgress,
+  }) {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new UploadAbortedError("File upload aborted")); // Handle abort signal
+        return;
+      }
+
+      const request = new XMLHttpRequest();
+      request.open(method, url);
+      request.withCredentials = withCredentials ?? false; // Send cookies with cross-origin requests
+      if (responseType === "blob") request.responseType = "blob";
+
+      Object.entries(headers ?? {}).forEach(([name, value]) =>
+        request.setRequestHeader(name, value)
+      );
+
+      // Track upload progress
+      if (onUploadProgress) {
+        request.upload.addEventListener("progress", (e) => {
+          if (e.lengthComputable) onUploadProgress(e.loaded, e.total);
+        });
+      }
+
+      const onAbort = () => request.abort();
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+      request.addEventListener("load", () => {
+        cleanup();
+        const isBlob = responseType === "blob"; // responseText is not readable for Blob responses
+        resolve({
+          status: request.status,
+          responseText: isBlob ? "" : request.responseText,
+          responseBlob: isBlob ? request.response : undefined,
+          getHeader: (name) => request.getResponseHeader(name),
+        });
+      });
+      request.addEventListener("error", () => {
+        cleanup();
+        reject(new NetworkError("Upload failed"));
+      });
+      request.addEventListener("abort", () => {
+        cleanup();
+        reject(new UploadAbortedError("Upload aborted"));
+      });
+
+      signal?.addEventListener("abort", onAbort); // Abort request if signal is triggered
+
+      request.send(body ?? null);
+    });
+  },
+};
+
+export default xhrTransport;
@@ -1,17 +1,81 @@
+import type ConcurrencyLimiter from "./utils/ConcurrencyLimiter";
+import type BandwidthLimiter from "./utils/BandwidthLimiter";
+
 export type OnProgressChangeHandler = (progress: number) => void;
 
+export type ChunkStatus = "uploading" | "retrying" | "done" | "failed";
+
+export type ChunkCounts = {
+  pending: number;
+  inFlight: number;
+  done: number;
+  failed: number;
+  retrying: number;
+};
+
+export type UploadProgress = {
+  uploadedBytes: number;
+  totalBytes?: number | undefined; // Unknown for streams without a length until they end
+  percentage: number;
+  bytesPerSecond: number;
+  eta?: number | undefined; // Seconds left, unknown until there is a throughput estimate
+  chunks: ChunkCounts & { total?: number | undefined };
+  attempts: Record<number, number>; // Current attempt of every started chunk, by chunk index
+  deduplicated?: boolean | undefined; // The server already had the content, no chunk was sent
+};
+
+export type OnProgressHandler = (progress: UploadProgress) => void;
+
 export type Method = "POST" | "PUT" | "PATCH";
-export type UploadType = "multiple" | "single";
+export type UploadType = "multiple" | "single" | "tus" | "s3";
 
 export type UploadResponse<T> = {
   response: T;
+  deduplicated?: boolean | undefined; // Resolved by the dedupe step without uploading
 };
 
+export type ResponseType = "json" | "text" | "blob" | "none";
+
+export type ResponseSchema<T> =
+  | ((body: unknown) => T) // Return the checked body or throw
+  | { parse(body: unknown): T }; // Zod compatible schema
+
 export type PayloadOptions = {
   chunkName?: string | undefined;
   fileName?: string | undefined;
   currentChunk?: string | undefined;
   totalChunk?: string | undefined;
+  checksum?: string | undefined;
+  fileChecksum?: string | undefined;
+  lastChunk?: string | undefined;
+  startOffset?: string | undefined;
+  endOffset?: string | undefined;
+  uploadId?: string | undefined;
+  fileSize?: string | undefined;
+  fileType?: string | undefined;
+  lastModified?: string | undefined;
+  chunkSize?: string | undefined;
+  contentEncoding?: string | undefined;
+  iv?: string | undefined;
+  authTag?: string | undefined;
+};
+
+export type HandshakeOptions = {
+  initUrl: string;
+  finalizeUrl: string;
+};
+
+export type HandshakeInitResponse = {
+  uploadId?: string | undefined; // Replaces the id generated by the client
+  maxChunkSize?: number | undefined; // Largest chunk the server accepts
+  uploadedChunks?: number[] | undefined; // Chunks the server already has
+};
+
+export type AdaptiveChunkSizeOptions = {
+  initialSize?: number | undefined;
+  minSize?: number | undefined;
+  maxSize?: number | undefined;
+  targetDuration?: number | undefined;
 };
 
 export type MultipartOptions = {
@@ -21,8 +85,530 @@ export type MultipartOptions = {
   maxParallel?: number | undefined;
 };
 
+export type RetryInfo = {
+  chunkIndex?: number | undefined; // Undefined for requests that are not tied to a chunk
+  attempt: number; // The attempt that failed, starting at 1
+  delay: number; // Milliseconds until the next attempt
+  error: unknown;
+};
+
+export type RetryPolicy = {
+  maxAttempts?: number | undefined;
+  maxTotalRetries?: number | undefined;
+  baseDelay?: number | undefined;
+  maxDelay?: number | undefined;
+  jitter?: "full" | "decorrelated" | "none" | undefined;
+  retryable?: ((error: unknown, attempt: number) => boolean) | undefined;
+  respectRetryAfter?: boolean | undefined;
+  onRetry?: ((info: RetryInfo) => void) | undefined;
+};
+
+export type UploadSource =
+  | File
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | RandomAccessSource
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+export type FileInfo = {
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+};
+
+export type RandomAccessSource = FileInfo & {
+  kind: "random";
+  read(start: number, end: number): Promise<Blob>;
+};
+
+export type StreamSource = Omit<FileInfo, "size"> & {
+  kind: "stream";
+  size?: number | undefined;
+  chunks(chunkSize: number | (() => number)): AsyncGenerator<{
+    chunk: Uint8Array<ArrayBuffer>;
+    isLast: boolean;
+  }>;
+};
+
+export type FileSource = RandomAccessSource | StreamSource;
+
+export type ValidationRule =
+  | "maxSize"
+  | "minSize"
+  | "type"
+  | "extension"
+  | "signature"
+  | "custom";
+
+export type ValidationFailure = {
+  rule: ValidationRule;
+  message: string;
+};
+
+// Return a message, or several, when the file is not accepted
+export type FileValidator = (
+  file: FileSource
+) =>
+  | string
+  | string[]
+  | undefined
+  | void
+  | Promise<string | string[] | undefined | void>;
+
+export type ValidationOptions = {
+  maxSize?: number | undefined;
+  minSize?: number | undefined;
+  allowedTypes?: string[] | undefined; // MIME types, "image/*" matches a whole family
+  allowedExtensions?: string[] | undefined; // With or without the leading dot
+  checkSignature?: boolean | undefined; // Compare the first bytes with the type and extension
+  validators?: FileValidator[] | undefined;
+};
+
+export type UploadState = {
+  uploadId: string; // Id the chunks were sent with, reused when the upload resumes
+  uploadedChunks: number[];
+};
+
+export type UploadStateStore = {
+  get(fingerprint: string): Promise<UploadState | undefined>;
+  set(fingerprint: string, state: UploadState): Promise<void>;
+  remove(fingerprint: string): Promise<void>;
+};
+
+export type ResumeOptions = {
+  store?: UploadStateStore | undefined;
+  statusUrl?: string | undefined;
+};
+
+export type TusChecksumAlgorithm = "sha1" | "sha256";
+
+export type TusOptions = {
+  metadata?: Record<string, string> | undefined;
+  checksumAlgorithm?: TusChecksumAlgorithm | undefined;
+  terminateOnAbort?: boolean | undefined;
+};
+
+export type TusUploadResult = {
+  uploadUrl: string;
+};
+
+export type S3MultipartUpload = {
+  uploadId: string;
+  key: string;
+};
+
+export type S3Part = {
+  partNumber: number;
+  etag: string;
+};
+
+export type S3Options = {
+  createMultipartUpload: (file: FileInfo) => Promise<S3MultipartUpload>;
+  signPart: (
+    upload: S3MultipartUpload & { partNumber: number }
+  ) => Promise<string>;
+  completeMultipartUpload: (
+    upload: S3MultipartUpload & { parts: S3Part[] }
+  ) => Promise<unknown>;
+  abortMultipartUpload: (upload: S3MultipartUpload) => Promise<void>;
+  keepOnFailure?: boolean | undefined; // Keep the parts of a failed upload to resume it later
+};
+
+export type ChecksumAlgorithm = "sha256" | "crc32c" | "md5";
+
+export type ChecksumHasher = {
+  update(data: Uint8Array): void;
+  digest(): string;
+};
+
+export type IntegrityOptions = {
+  algorithm?: ChecksumAlgorithm | undefined;
+  location?: "field" | "header" | undefined;
+  fileChecksum?: boolean | undefined;
+  mismatchStatus?: number | undefined;
+};
+
+export type CompressionFormat = "gzip" | "deflate";
+
+export type Compressor = {
+  encoding: string; // Sent with every compressed chunk
+  compress(chunk: Blob): Promise<Blob>;
+};
+
+export type CompressionOptions = {
+  format?: CompressionFormat | Compressor | undefined;
+  location?: "field" | "header" | undefined;
+  skipTypes?: string[] | undefined; // MIME types sent as they are, "image/*" matches a whole family
+};
+
+export type EncryptionOptions = {
+  key?: CryptoKey | undefined; // AES-GCM key with the encrypt usage
+  publicKey?: CryptoKey | undefined; // RSA-OAEP key that wraps a new key for every upload
+};
+
+export type EncryptionManifest = {
+  algorithm: "AES-GCM";
+  keyWrap?: "RSA-OAEP" | undefined;
+  wrappedKey?: string | undefined; // Base64 key of the upload, wrapped with the public key
+  ivSalt?: string | undefined; // Base64 random prefix of the IVs of the upload
+};
+
+export type ChunkCipher = {
+  encrypt(
+    chunk: Blob,
+    chunkIndex: number
+  ): Promise<{ body: Blob; iv: string; authTag: string }>;
+};
+
+export type DedupeOptions = {
+  url: string; // Endpoint that tells whether the server already has the content
+  algorithm?: ChecksumAlgorithm | undefined;
+  worker?: (() => Worker) | undefined; // Hash in a worker that calls installHashWorker
+};
+
+export type DedupeResponse = {
+  exists?: boolean | undefined; // The rest of the body is the upload response on a hit
+};
+
+export type HashWorkerRequest = {
+  id: string;
+  blob: Blob;
+  algorithm: ChecksumAlgorithm;
+  sliceSize: number;
+};
+
+export type HashWorkerResponse = {
+  id: string;
+  digest?: string | undefined;
+  error?: string | undefined;
+};
+
+export type TransportRequest = {
+  method: string;
+  url: string;
+  headers?: Record<string, string> | undefined;
+  body?: Blob | FormData | string | null | undefined;
+  signal?: AbortSignal | undefined;
+  withCredentials?: boolean | undefined;
+  chunkIndex?: number | undefined; // Chunk the request belongs to, undefined for other requests
+  attempt?: number | undefined; // Attempt of the request, starting at 1
+  responseType?: "text" | "blob" | undefined; // Read the response body as a Blob instead of text
+  onUploadProgress?: ((loaded: number, total: number) => void) | undefined;
+};
+
+export type TransportResponse = {
+  status: number;
+  responseText: string; // Empty when the body is read as a Blob
+  responseBlob?: Blob | undefined;
+  getHeader: (name: string) => string | null;
+};
+
+export type HookRequest = {
+  url: string;
+  headers: Record<string, string>;
+  fields: Record<string, string>; // Extra form fields, only sent with form uploads
+  withCredentials: boolean;
+};
+
+export type HookContext = {
+  uploadId: string;
+  fileName: string;
+  chunkIndex?: number | undefined;
+  attempt: number; // Starts at 1 and grows with every retry of the request
+  method: string;
+  signal?: AbortSignal | undefined;
+};
+
+export type RequestHooks = {
+  beforeRequest?:
+    | ((
+        request: HookRequest,
+        context: HookContext
+      ) => void | HookRequest | Promise<void | HookRequest>)
+    | undefined;
+  afterResponse?:
+    | ((
+        response: TransportResponse,
+        context: HookContext
+      ) => void | "replay" | Promise<void | "replay">)
+    | undefined;
+};
+
+export type Transport = {
+  send(request: TransportRequest): Promise<TransportResponse>;
+  readonly progressEvents?: boolean | undefined; // False when upload progress is only reported once a request completes
+};
+
 export type Options = {
   method?: Method | undefined;
   uploadType?: UploadType | undefined;
   payloadOptions?: PayloadOptions | undefined;
+  resume?: ResumeOptions | boolean | undefined;
+  tusOptions?: TusOptions | undefined;
+  s3Options?: S3Options | undefined;
+  integrity?: IntegrityOptions | boolean | undefined;
+  transport?: Transport | "xhr" | "fetch" | undefined;
+  requestLimiter?: ConcurrencyLimiter | undefined;
+  maxBytesPerSecond?: number | undefined;
+  bandwidthLimiter?: BandwidthLimiter | undefined; // Replaces maxBytesPerSecond with a shared budget
+  retryPolicy?: RetryPolicy | undefined;
+  adaptiveChunkSize?: AdaptiveChunkSizeOptions | boolean | undefined;
+  hooks?: RequestHooks | undefined;
+  withCredentials?: boolean | undefined;
+  metadataLocation?: "field" | "header" | undefined;
+  handshake?: HandshakeOptions | undefined;
+  sendLastChunkLast?: boolean | undefined;
+  responseType?: ResponseType | undefined;
+  parseResponse?: ((response: TransportResponse) => unknown) | undefined;
+  validateResponse?: ((status: number, body: unknown) => boolean) | undefined;
+  timeout?: number | undefined;
+  stallTimeout?: number | undefined;
+  validate?: ValidationOptions | undefined;
+  compression?: CompressionOptions | CompressionFormat | Compressor | undefined;
+  encryption?: EncryptionOptions | undefined;
+  dedupe?: DedupeOptions | undefined;
 } & MultipartOptions;
+
+export type UploadQueueItemStatus =
+  | "pending"
+  | "uploading"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type UploadQueueItem = {
+  id: string;
+  file: UploadSource;
+  fileName?: string | undefined;
+  size?: number | undefined;
+  priority: number;
+  status: UploadQueueItemStatus;
+  progress: number;
+  response?: UploadResponse<unknown> | undefined;
+  error?: unknown;
+};
+
+export type UploadQueueOptions = {
+  uploadUrl: string;
+  options?: Options | undefined;
+  maxConcurrentFiles?: number | undefined;
+  maxConcurrentChunks?: number | undefined;
+  autoStart?: boolean | undefined;
+};
+
+export type UploadQueueEvents = {
+  itemAdded: (item: UploadQueueItem) => void;
+  itemStarted: (item: UploadQueueItem) => void;
+  itemProgress: (item: UploadQueueItem) => void;
+  itemCompleted: (item: UploadQueueItem) => void;
+  itemFailed: (item: UploadQueueItem) => void;
+  itemCancelled: (item: UploadQueueItem) => void;
+  itemRemoved: (item: UploadQueueItem) => void;
+  progress: (progress: number | undefined) => void; // Undefined while a file of unknown size is left to upload
+  drained: () => void;
+};
+
+export type UseChunkUploadOptions = {
+  uploadUrl?: string | undefined; // Can also be given to every upload call
+  options?: Options | undefined;
+};
+
+export type UseChunkUploadParams<T = unknown> = Omit<
+  UploadParams<T>,
+  "file" | "uploadUrl" | "onProgressChange" | "onProgress" | "onStateChange"
+> & { uploadUrl?: string | undefined };
+
+export type UseChunkUploadState<T = unknown> = {
+  status: UploadTaskState;
+  progress: number;
+  details?: UploadProgress | undefined; // Latest progress details of the upload
+  error?: unknown;
+  result?: UploadResponse<T> | undefined;
+};
+
+export type UseChunkUploadResult<T = unknown> = UseChunkUploadState<T> & {
+  upload: (
+    file: UploadSource,
+    params?: UseChunkUploadParams<T>
+  ) => Promise<UploadResponse<T> | undefined>;
+  cancel: () => void;
+  pause: (options?: { abortInFlight?: boolean }) => void;
+  resume: () => void;
+  reset: () => void;
+};
+
+export type UseUploadQueueResult = {
+  items: UploadQueueItem[];
+  progress: number | undefined;
+  add: (
+    file: UploadSource,
+    options?: {
+      fileName?: string;
+      uploadUrl?: string;
+      priority?: number;
+      metadata?: Record<string, string | Blob>;
+    }
+  ) => string;
+  start: () => void;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  setPriority: (id: string, priority: number) => void;
+  move: (id: string, index: number) => void;
+};
+
+export type UploadTaskState =
+  | "idle"
+  | "uploading"
+  | "paused"
+  | "retrying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type UploadContext = {
+  readonly signal: AbortSignal;
+  readonly cancelled: boolean;
+  waitIfPaused(): Promise<void>;
+  setRetrying(retrying: boolean): void;
+  onProgressChange?: OnProgressChangeHandler | undefined;
+  onProgress?: OnProgressHandler | undefined;
+};
+
+export type UploadParams<T = unknown> = {
+  file: UploadSource;
+  fileName?: string | undefined;
+  uploadUrl: string;
+  uploadId?: string | undefined;
+  metadata?: Record<string, string | Blob> | undefined;
+  responseSchema?: ResponseSchema<T> | undefined;
+  onProgressChange?: OnProgressChangeHandler | undefined;
+  onProgress?: OnProgressHandler | undefined;
+  onStateChange?: ((state: UploadTaskState) => void) | undefined;
+};
+
+export type UploadSession = {
+  uploadId: string;
+  fixedUploadId: boolean; // Chosen by the caller or known to the server, a stored id does not replace it
+  fileName: string;
+  fields: Record<string, string | Blob>; // Sent with every chunk
+  headers: Record<string, string>; // Sent with every chunk
+  metadata: Record<string, string | Blob>;
+  compressor?: Compressor | undefined; // Unset when the file type is already compressed
+  cipher?: ChunkCipher | undefined;
+  contentHash?: { algorithm: ChecksumAlgorithm; digest: string } | undefined; // Hash of the dedupe step
+};
+
+export type ReceiverSession = {
+  uploadId: string;
+  fileName: string;
+  fileSize?: number | undefined;
+  fileType?: string | undefined;
+  lastModified?: number | undefined;
+  totalChunks?: number | undefined; // Unknown for streams until the last chunk arrives
+  metadata: Record<string, string>;
+  fileChecksum?: string | undefined; // Checked once the file is assembled
+  handshake: boolean; // Started with an init request, assembled by the finalize request
+  completed?: ReceiverResult | undefined; // Response of the request that assembled the file
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredFile = {
+  size: number;
+  path?: string | undefined; // Set by storages that write the file to disk
+  blob?: Blob | undefined; // Set by storages that keep the file in memory
+};
+
+export type ReceivedFile = StoredFile & {
+  uploadId: string;
+  fileName: string;
+  fileType?: string | undefined;
+  lastModified?: number | undefined;
+  metadata: Record<string, string>;
+  fileChecksum?: string | undefined; // Content hash to look the file up by in findDuplicate
+};
+
+export type ChunkStorage = {
+  writeChunk(uploadId: string, index: number, data: Uint8Array): Promise<void>;
+  readChunk(uploadId: string, index: number): Promise<Uint8Array>;
+  listChunks(uploadId: string): Promise<number[]>;
+  readSession(uploadId: string): Promise<ReceiverSession | undefined>;
+  writeSession(session: ReceiverSession): Promise<void>;
+  listSessions(): Promise<ReceiverSession[]>;
+  assemble(session: ReceiverSession): Promise<StoredFile>; // Join chunks 0 to totalChunks - 1 in order
+  remove(uploadId: string): Promise<void>; // Drop the chunks and the session, the assembled file stays
+};
+
+export type UploadReceiverOptions = {
+  storage?: ChunkStorage | undefined;
+  payloadOptions?: PayloadOptions | undefined;
+  maxChunkSize?: number | undefined;
+  maxChunks?: number | undefined;
+  maxBodySize?: number | undefined; // Largest multipart body the Node handlers read, defaults to maxChunkSize and 1MB
+  expireAfter?: number | undefined;
+  checksumAlgorithm?: ChecksumAlgorithm | undefined;
+  mismatchStatus?: number | undefined;
+  onComplete?: ((file: ReceivedFile) => unknown) | undefined;
+  findDuplicate?:
+    | ((
+        fileChecksum: string,
+        fields: Record<string, string>
+      ) =>
+        | Record<string, unknown>
+        | undefined
+        | Promise<Record<string, unknown> | undefined>)
+    | undefined; // Response body of a stored file with the same content, undefined when there is none
+};
+
+export type ReceiverAction = "chunk" | "init" | "finalize" | "exists";
+
+export type ReceiverResult = {
+  status: number;
+  body: unknown;
+};
+
+export type ReceiverHeaders = Record<string, string | string[] | undefined>;
+
+export type MockRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  fields: Record<string, string>; // String fields of form and JSON bodies
+  chunk?: Uint8Array | undefined; // Bytes of the chunk as sent, compressed or encrypted when enabled
+  chunkIndex?: number | undefined;
+  startOffset?: number | undefined;
+  endOffset?: number | undefined;
+  attempt: number; // 1 for the first request of a chunk, counting up with every retry
+  status?: number | undefined; // Unset while in flight, and for dropped or aborted requests
+  outcome: "pending" | "completed" | "dropped" | "aborted";
+};
+
+export type MockFault = {
+  chunkIndex?: number | undefined; // Only requests of this chunk
+  url?: string | undefined; // Only requests to this url
+  times?: number | undefined; // Requests the fault applies to
+} & (
+  | {
+      type: "status";
+      status: number;
+      body?: string | undefined;
+      headers?: Record<string, string> | undefined;
+    }
+  | { type: "drop"; afterBytes?: number | undefined } // Connection lost after some bytes were sent
+  | { type: "delay"; delay: number } // Milliseconds added before the response
+  | { type: "malformed" }
+); // Success status with a body that is not JSON
+
+export type MockUploadServerOptions = {
+  payloadOptions?: PayloadOptions | undefined;
+  initUrl?: string | undefined;
+  finalizeUrl?: string | undefined;
+  dedupeUrl?: string | undefined;
+  latency?: number | undefined;
+  bytesPerSecond?: number | undefined;
+  progressSteps?: number | undefined;
+  receiver?: UploadReceiverOptions | undefined;
+};
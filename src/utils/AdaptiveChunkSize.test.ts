@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import AdaptiveChunkSize from "./AdaptiveChunkSize";
+import UploadChunkFile from "../UploadChunkFile";
+import MockUploadServer from "../testing/MockUploadServer";
+
+const sizer = () =>
+  new AdaptiveChunkSize({
+    initialSize: 1000,
+    minSize: 500,
+    maxSize: 8000,
+    targetDuration: 1000,
+  });
+
+describe("AdaptiveChunkSize", () => {
+  it("moves toward the size sent in the target duration", () => {
+    const chunkSize = sizer();
+
+    chunkSize.record(1000, 800); // 1250 bytes per second
+    expect(chunkSize.current).toBe(1250);
+    chunkSize.record(1250, 1250);
+    expect(chunkSize.current).toBe(1000);
+  });
+
+  it("changes by at most 2x per chunk", () => {
+    const chunkSize = sizer();
+
+    chunkSize.record(1000, 10);
+    expect(chunkSize.current).toBe(2000);
+    chunkSize.record(2000, 100000);
+    expect(chunkSize.current).toBe(1000);
+  });
+
+  it("stays between minSize and maxSize", () => {
+    const chunkSize = sizer();
+
+    [1, 2, 3, 4].forEach(() => chunkSize.record(chunkSize.current, 1));
+    expect(chunkSize.current).toBe(8000);
+    [1, 2, 3, 4, 5].forEach(() => chunkSize.recordFailure());
+    expect(chunkSize.current).toBe(500);
+  });
+
+  it("halves the size after a failure", () => {
+    const chunkSize = sizer();
+
+    chunkSize.recordFailure();
+    expect(chunkSize.current).toBe(500);
+  });
+
+  it("ignores empty requests", () => {
+    const chunkSize = sizer();
+
+    chunkSize.record(0, 0);
+    expect(chunkSize.current).toBe(1000);
+  });
+});
+
+describe("adaptive chunk sizing through the mock server", () => {
+  it("grows the chunks of a fast link and sends contiguous byte ranges", async () => {
+    const server = new MockUploadServer();
+    const data = Uint8Array.from({ length: 20000 }, (_, index) => index % 251);
+
+    await new UploadChunkFile({
+      transport: server,
+      maxParallel: 1,
+      adaptiveChunkSize: {
+        initialSize: 1024,
+        minSize: 1024,
+        maxSize: 4096,
+        targetDuration: 60000,
+      },
+    }).uploadFile({ file: new File([data], "data.bin"), uploadUrl: "/upload" });
+
+    const ranges = server
+      .chunkRequests()
+      .map(({ startOffset, endOffset }) => [startOffset, endOffset]);
+    expect(ranges.slice(0, 3)).toEqual([
+      [0, 1024],
+      [1024, 3072],
+      [3072, 7168],
+    ]);
+    ranges.forEach(([start], index) =>
+      expect(start).toBe(index === 0 ? 0 : ranges[index - 1][1])
+    );
+    expect(ranges.at(-1)?.[1]).toBe(data.length);
+    expect(await server.readFile()).toEqual(data);
+  });
+});
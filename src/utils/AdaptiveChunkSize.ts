@@ -0,0 +1,39 @@
+import type { AdaptiveChunkSizeOptions } from "../types";
+
+// Size each next chunk so its request takes about the target duration
+export default class AdaptiveChunkSize {
+  private options: AdaptiveChunkSizeOptions;
+  private size: number;
+
+  constructor(options: AdaptiveChunkSizeOptions) {
+    this.options = options;
+    this.size = this.clamp(options.initialSize!);
+  }
+
+  // Size of the next chunk
+  public get current() {
+    return this.size;
+  }
+
+  // Move toward the size the measured throughput can send in the target duration
+  public record(bytes: number, duration: number) {
+    if (bytes <= 0) return;
+
+    const ideal =
+      (bytes / Math.max(duration, 1)) * this.options.targetDuration!;
+    this.size = this.clamp(
+      Math.min(Math.max(ideal, this.size / 2), this.size * 2) // Change by at most 2x per chunk
+    );
+  }
+
+  // Halve the size after a failed request, smaller chunks lose less on a flaky link
+  public recordFailure() {
+    this.size = this.clamp(this.size / 2);
+  }
+
+  private clamp(size: number) {
+    return Math.round(
+      Math.min(Math.max(size, this.options.minSize!), this.options.maxSize!)
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import BandwidthLimiter from "./BandwidthLimiter";
+import { UploadAbortedError } from "./Errors";
+
+// Milliseconds after the start at which each acquire resolved
+const track = (limiter: BandwidthLimiter) => {
+  const start = Date.now();
+  const times: Record<string, number> = {};
+  const acquire = (name: string, bytes: number, signal?: AbortSignal) =>
+    limiter.acquire(bytes, signal).then(() => {
+      times[name] = Date.now() - start;
+    });
+  return { times, acquire };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("BandwidthLimiter", () => {
+  it("sends while the bucket is not in debt, then paces the rest", async () => {
+    const { times, acquire } = track(new BandwidthLimiter(1000));
+
+    acquire("a", 1000);
+    acquire("b", 500);
+    acquire("c", 500);
+    acquire("d", 1000);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(times).toEqual({ a: 0, b: 0, c: 500, d: 1000 }); // b still goes at an empty bucket and leaves it in debt
+  });
+
+  it("lets a request larger than the bucket borrow from the next seconds", async () => {
+    const { times, acquire } = track(new BandwidthLimiter(1000));
+
+    acquire("large", 3000);
+    acquire("next", 100);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(times).toEqual({ large: 0, next: 2000 });
+  });
+
+  it("drops an aborted request from the line", async () => {
+    const { times, acquire } = track(new BandwidthLimiter(1000));
+    const controller = new AbortController();
+
+    acquire("a", 2000);
+    const aborted = acquire("b", 5000, controller.signal).catch((e) => e);
+    acquire("c", 100);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await aborted).toBeInstanceOf(UploadAbortedError);
+    expect(times).toEqual({ a: 0, c: 1000 });
+  });
+
+  it("paces waiting requests by a new limit right away", async () => {
+    const limiter = new BandwidthLimiter(100);
+    const { times, acquire } = track(limiter);
+
+    acquire("a", 200);
+    acquire("b", 100);
+    await vi.advanceTimersByTimeAsync(100);
+    limiter.setLimit(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(times.b).toBe(190); // 90 bytes owed at 100ms, paid off at 1000 bytes per second
+    expect(limiter.bytesPerSecond).toBe(1000);
+  });
+
+  it("never waits without a limit", async () => {
+    const { times, acquire } = track(new BandwidthLimiter());
+
+    await Promise.all([acquire("a", 1e9), acquire("b", 1e9)]);
+
+    expect(times).toEqual({ a: 0, b: 0 });
+  });
+
+  it("rejects a limit that is not positive", () => {
+    expect(() => new BandwidthLimiter(0)).toThrow(
+      "maxBytesPerSecond must be greater than 0"
+    );
+  });
+});
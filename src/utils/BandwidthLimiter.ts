@@ -0,0 +1,96 @@
+import { UploadAbortedError } from "./Errors";
+
+// Token bucket that paces the bytes sent to a rate, shareable across uploads
+export default class BandwidthLimiter {
+  private limit: number;
+  private tokens: number; // Bytes that may be sent right away, negative while a large request is paid off
+  private refilledAt = Date.now();
+  private waiting: { bytes: number; resolve: () => void }[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(bytesPerSecond = Infinity) {
+    this.limit = validateLimit(bytesPerSecond);
+    this.tokens = this.limit; // Allow a burst of one second
+  }
+
+  // Current limit in bytes per second
+  public get bytesPerSecond() {
+    return this.limit;
+  }
+
+  // Wait until the bytes may be sent, a request larger than the bucket borrows from the next seconds
+  public async acquire(bytes: number, signal?: AbortSignal) {
+    if (signal?.aborted) throw new UploadAbortedError("Upload aborted");
+    this.refill();
+    if (this.waiting.length === 0 && this.tokens >= 0) {
+      this.tokens -= bytes;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((item) => item !== waiter);
+        reject(new UploadAbortedError("Upload aborted"));
+      };
+      const waiter = {
+        bytes,
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(waiter);
+      this.schedule();
+    });
+  }
+
+  // Change the limit, waiting requests are paced by the new one right away
+  public setLimit(bytesPerSecond: number) {
+    this.refill();
+    this.limit = validateLimit(bytesPerSecond);
+    this.tokens = Math.min(this.tokens, this.limit);
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.release();
+  }
+
+  // Add the tokens earned since the last refill, up to one second of bytes
+  private refill() {
+    const now = Date.now();
+    if (this.limit === Infinity) {
+      this.tokens = Infinity;
+    } else {
+      const earned = ((now - this.refilledAt) / 1000) * this.limit;
+      this.tokens = Math.min(this.tokens + earned, this.limit);
+    }
+    this.refilledAt = now;
+  }
+
+  // Let waiters through in order while there are tokens
+  private release() {
+    this.refill();
+    while (this.waiting.length > 0 && this.tokens >= 0) {
+      const waiter = this.waiting.shift()!;
+      this.tokens -= waiter.bytes;
+      waiter.resolve();
+    }
+    this.schedule();
+  }
+
+  // Wake up when the bucket is no longer in debt
+  private schedule() {
+    if (this.timer !== undefined || this.waiting.length === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.release();
+    }, Math.max(Math.ceil((-this.tokens / this.limit) * 1000), 1));
+  }
+}
+
+function validateLimit(bytesPerSecond: number) {
+  if (!(bytesPerSecond > 0)) {
+    throw new Error("maxBytesPerSecond must be greater than 0");
+  }
+  return bytesPerSecond;
+}
@@ -0,0 +1,38 @@
+// Limit how many requests run at once, shareable across uploads
+export default class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  // Wait for a free slot
+  public async acquire() {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  // Hand the slot to the next waiter, or free it
+  public release() {
+    const next = this.active <= this.limit ? this.waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  // Change the limit, waiters are started right away when it grows
+  public setLimit(limit: number) {
+    this.limit = limit;
+    while (this.active < this.limit && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
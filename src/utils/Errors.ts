@@ -1,3 +1,5 @@
+import type { ValidationFailure } from "../types";
+
 export class UploadAbortedError extends Error {
   constructor(message: string) {
     super(message);
@@ -5,9 +7,208 @@ export class UploadAbortedError extends Error {
   }
 }
 
-export class FileUploadError extends Error {
-  constructor(message: string) {
+// The file was rejected before any request was sent
+export class ValidationError extends Error {
+  public failures: ValidationFailure[]; // Every rule the file failed
+
+  constructor(message: string, failures: ValidationFailure[]) {
     super(message);
+    this.name = "ValidationError";
+    this.failures = failures;
+  }
+}
+
+type FileUploadErrorOptions = {
+  status?: number;
+  retryAfter?: number;
+  chunkIndex?: number;
+  attempt?: number;
+  cause?: unknown;
+};
+
+// Base class of every upload failure
+export class FileUploadError extends Error {
+  public status?: number; // HTTP status, undefined for network errors
+  public retryAfter?: number; // Milliseconds from the Retry-After header
+  public chunkIndex?: number; // Chunk that failed, undefined for requests outside a chunk
+  public attempt?: number; // Attempts made for the chunk, including the failed one
+
+  constructor(
+    message: string,
+    {
+      status,
+      retryAfter,
+      chunkIndex,
+      attempt,
+      cause,
+    }: FileUploadErrorOptions = {}
+  ) {
+    super(message, cause === undefined ? undefined : { cause });
     this.name = "FileUploadError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.chunkIndex = chunkIndex;
+    this.attempt = attempt;
+  }
+}
+
+// The server answered with an error status
+export class HttpError extends FileUploadError {
+  public declare status: number;
+  public body: unknown; // Parsed JSON body, or the raw text when it is not JSON
+  public responseText: string;
+  public getHeader: (name: string) => string | null;
+
+  constructor(
+    message: string,
+    {
+      status,
+      body,
+      responseText,
+      getHeader,
+      ...options
+    }: FileUploadErrorOptions & {
+      status: number;
+      body: unknown;
+      responseText: string;
+      getHeader: (name: string) => string | null;
+    }
+  ) {
+    super(message, { status, ...options });
+    this.name = "HttpError";
+    this.body = body;
+    this.responseText = responseText;
+    this.getHeader = getHeader;
   }
 }
+
+// The request did not reach the server or the connection dropped
+export class NetworkError extends FileUploadError {
+  constructor(message: string, options?: FileUploadErrorOptions) {
+    super(message, options);
+    this.name = "NetworkError";
+  }
+}
+
+// The request took longer than allowed
+export class TimeoutError extends FileUploadError {
+  constructor(message: string, options?: FileUploadErrorOptions) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+// A success response could not be read, or did not match the response schema
+export class ResponseParseError extends FileUploadError {
+  public responseText?: string; // Undefined when a parsed body failed the response schema
+
+  constructor(
+    message: string,
+    {
+      responseText,
+      ...options
+    }: FileUploadErrorOptions & { responseText?: string } = {}
+  ) {
+    super(message, options);
+    this.name = "ResponseParseError";
+    this.responseText = responseText;
+  }
+}
+
+// A chunk failed for a reason other than its request, the original error is the cause
+export class ChunkUploadError extends FileUploadError {
+  constructor(message: string, options?: FileUploadErrorOptions) {
+    super(message, options);
+    this.name = "ChunkUploadError";
+  }
+}
+
+// Several chunks of the same upload failed
+export class UploadAggregateError extends FileUploadError {
+  public errors: unknown[];
+
+  constructor(message: string, errors: unknown[]) {
+    super(message);
+    this.name = "UploadAggregateError";
+    this.errors = errors;
+  }
+}
+
+export class ChecksumMismatchError extends FileUploadError {
+  constructor(message: string, options?: FileUploadErrorOptions) {
+    super(message, options);
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+// Type guards, they compare names too so errors from another copy of the library match
+function isErrorNamed(error: unknown, name: string) {
+  return error instanceof Error && error.name === name;
+}
+
+export function isFileUploadError(error: unknown): error is FileUploadError {
+  return (
+    error instanceof FileUploadError ||
+    [
+      "FileUploadError",
+      "HttpError",
+      "NetworkError",
+      "TimeoutError",
+      "ResponseParseError",
+      "ChunkUploadError",
+      "UploadAggregateError",
+      "ChecksumMismatchError",
+    ].some((name) => isErrorNamed(error, name))
+  );
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError || isErrorNamed(error, "HttpError");
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError || isErrorNamed(error, "NetworkError");
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError || isErrorNamed(error, "TimeoutError");
+}
+
+export function isResponseParseError(
+  error: unknown
+): error is ResponseParseError {
+  return (
+    error instanceof ResponseParseError ||
+    isErrorNamed(error, "ResponseParseError")
+  );
+}
+
+export function isChunkUploadError(error: unknown): error is ChunkUploadError {
+  return (
+    error instanceof ChunkUploadError || isErrorNamed(error, "ChunkUploadError")
+  );
+}
+
+export function isUploadAggregateError(
+  error: unknown
+): error is UploadAggregateError {
+  return (
+    error instanceof UploadAggregateError ||
+    isErrorNamed(error, "UploadAggregateError")
+  );
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return (
+    error instanceof ValidationError || isErrorNamed(error, "ValidationError")
+  );
+}
+
+export function isUploadAbortedError(
+  error: unknown
+): error is UploadAbortedError {
+  return (
+    error instanceof UploadAbortedError ||
+    isErrorNamed(error, "UploadAbortedError")
+  );
+}
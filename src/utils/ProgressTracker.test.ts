@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import ProgressTracker from "./ProgressTracker";
+import type { UploadContext, UploadProgress } from "../types";
+
+const createContext = () => {
+  const events: UploadProgress[] = [];
+  const percentages: number[] = [];
+  const context = {
+    signal: new AbortController().signal,
+    cancelled: false,
+    waitIfPaused: async () => undefined,
+    setRetrying: () => undefined,
+    onProgress: (progress) => events.push(progress),
+    onProgressChange: (percentage) => percentages.push(percentage),
+  } satisfies UploadContext;
+  return { context, events, percentages };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ProgressTracker", () => {
+  it("counts acknowledged bytes and the bytes of chunks in flight", () => {
+    const { context } = createContext();
+    const tracker = new ProgressTracker(context, {
+      totalBytes: 3000,
+      totalChunks: 3,
+    });
+
+    tracker.chunkSkipped(0, 1000);
+    tracker.chunkStarted(1);
+    tracker.chunkProgress(1, 500);
+
+    expect(tracker.progress).toMatchObject({
+      uploadedBytes: 1500,
+      totalBytes: 3000,
+      percentage: 50,
+      chunks: { pending: 1, inFlight: 1, done: 1, total: 3 },
+      attempts: { 1: 1 },
+    });
+  });
+
+  it("drops the bytes of a failed attempt and counts the retry", () => {
+    const { context } = createContext();
+    const tracker = new ProgressTracker(context, {
+      totalBytes: 2000,
+      totalChunks: 2,
+    });
+
+    tracker.chunkStarted(0);
+    tracker.chunkProgress(0, 800);
+    tracker.chunkFailed(0, true);
+    expect(tracker.progress).toMatchObject({
+      uploadedBytes: 0,
+      chunks: { retrying: 1, inFlight: 0 },
+    });
+
+    tracker.chunkStarted(0);
+    tracker.chunkDone(0, 1000);
+    expect(tracker.progress).toMatchObject({
+      uploadedBytes: 1000,
+      chunks: { done: 1, retrying: 0 },
+      attempts: { 0: 2 },
+    });
+  });
+
+  it("estimates the throughput and the time left", () => {
+    vi.useFakeTimers();
+    const { context } = createContext();
+    const tracker = new ProgressTracker(context, {
+      totalBytes: 10000,
+      totalChunks: 10,
+    });
+
+    tracker.chunkStarted(0);
+    vi.advanceTimersByTime(1000);
+    tracker.chunkDone(0, 1000);
+
+    expect(tracker.progress.bytesPerSecond).toBe(1000);
+    expect(tracker.progress.eta).toBe(9);
+  });
+
+  it("only reports a percentage once the total of a stream is known", () => {
+    const { context, events, percentages } = createContext();
+    const tracker = new ProgressTracker(context, {});
+
+    tracker.chunkStarted(0);
+    tracker.chunkDone(0, 1000);
+    expect(percentages).toEqual([]);
+    expect(events.at(-1)).toMatchObject({
+      uploadedBytes: 1000,
+      totalBytes: undefined,
+    });
+
+    tracker.complete();
+    expect(percentages).toEqual([100]);
+    expect(events.at(-1)).toMatchObject({
+      totalBytes: 1000,
+      chunks: { total: 1 },
+    });
+  });
+
+  it("reports a deduplicated upload as complete", () => {
+    const { context, events } = createContext();
+
+    new ProgressTracker(context, {
+      totalBytes: 5000,
+      totalChunks: 0,
+    }).deduplicated();
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        uploadedBytes: 5000,
+        percentage: 100,
+        deduplicated: true,
+      }),
+    ]);
+  });
+});
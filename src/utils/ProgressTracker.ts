@@ -0,0 +1,177 @@
+import type {
+  ChunkCounts,
+  ChunkStatus,
+  UploadContext,
+  UploadProgress,
+} from "../types";
+
+const SMOOTHING_WINDOW = 3000; // Milliseconds over which the throughput is averaged
+
+// Track bytes and chunk states of one upload and report them as progress events
+export default class ProgressTracker {
+  private context: UploadContext;
+  private totalBytes?: number;
+  private totalChunks?: number;
+  private committedBytes = 0; // Bytes acknowledged by the server
+  private chunks: Map<
+    number,
+    { status: ChunkStatus; attempt: number; loaded: number }
+  > = new Map();
+  private bytesPerSecond = 0;
+  private transferredBytes = 0; // Bytes sent, including failed attempts
+  private lastSample?: { time: number; transferredBytes: number };
+  private isDeduplicated = false;
+
+  constructor(
+    context: UploadContext,
+    { totalBytes, totalChunks }: { totalBytes?: number; totalChunks?: number }
+  ) {
+    this.context = context;
+    this.totalBytes = totalBytes;
+    this.totalChunks = totalChunks;
+  }
+
+  // Set the number of chunks once it is known, for streams when they end
+  public setTotalChunks(totalChunks: number) {
+    this.totalChunks = totalChunks;
+  }
+
+  // Count a chunk acknowledged by an earlier attempt of the upload
+  public chunkSkipped(index: number, bytes: number) {
+    this.chunks.set(index, { status: "done", attempt: 0, loaded: 0 });
+    this.committedBytes += bytes;
+    this.emit();
+  }
+
+  // A new attempt of a chunk is being sent
+  public chunkStarted(index: number) {
+    const attempt = (this.chunks.get(index)?.attempt ?? 0) + 1;
+    this.chunks.set(index, { status: "uploading", attempt, loaded: 0 });
+    this.lastSample ??= { time: Date.now(), transferredBytes: 0 }; // Measure from the first request
+    this.emit();
+  }
+
+  // Bytes of the current attempt that reached the server so far
+  public chunkProgress(index: number, loaded: number) {
+    const chunk = this.chunks.get(index);
+    if (!chunk || chunk.status !== "uploading") return;
+
+    this.transferredBytes += Math.max(loaded - chunk.loaded, 0);
+    chunk.loaded = loaded;
+    this.sample();
+    this.emit();
+  }
+
+  // The server acknowledged the given number of bytes of the chunk
+  public chunkDone(index: number, bytes: number) {
+    const chunk = this.chunks.get(index);
+    if (chunk) {
+      this.transferredBytes += Math.max(bytes - chunk.loaded, 0);
+      chunk.status = "done";
+      chunk.loaded = 0;
+    }
+    this.committedBytes += bytes;
+    this.sample();
+    this.emit();
+  }
+
+  // Bytes the server acknowledged outside of a chunk attempt, negative when it lost some
+  public bytesAcknowledged(bytes: number) {
+    this.committedBytes += bytes;
+    this.emit();
+  }
+
+  // The current attempt failed, its bytes no longer count as uploaded
+  public chunkFailed(index: number, retrying: boolean) {
+    const chunk = this.chunks.get(index);
+    if (!chunk) return;
+
+    chunk.status = retrying ? "retrying" : "failed";
+    chunk.loaded = 0;
+    this.emit();
+  }
+
+  // Report the upload as finished, the total of an unknown length stream is now known
+  public complete() {
+    this.totalBytes ??= this.committedBytes;
+    this.totalChunks ??= this.chunks.size;
+    this.committedBytes = this.totalBytes;
+    this.emit();
+  }
+
+  // Report the upload as finished without sending chunks, the server already had the content
+  public deduplicated() {
+    this.isDeduplicated = true;
+    this.complete();
+  }
+
+  // Current progress snapshot
+  public get progress(): UploadProgress {
+    const counts: ChunkCounts = {
+      pending: 0,
+      inFlight: 0,
+      done: 0,
+      failed: 0,
+      retrying: 0,
+    };
+    const attempts: Record<number, number> = {};
+    let inFlightBytes = 0;
+
+    this.chunks.forEach(({ status, attempt, loaded }, index) => {
+      if (status === "uploading") counts.inFlight++;
+      else counts[status]++;
+      if (attempt > 0) attempts[index] = attempt;
+      inFlightBytes += loaded;
+    });
+    counts.pending = Math.max((this.totalChunks ?? 0) - this.chunks.size, 0); // Chunks not started yet
+
+    const uploadedBytes = this.committedBytes + inFlightBytes;
+    const remainingBytes =
+      this.totalBytes !== undefined
+        ? Math.max(this.totalBytes - uploadedBytes, 0)
+        : undefined;
+
+    return {
+      uploadedBytes,
+      totalBytes: this.totalBytes,
+      percentage: this.totalBytes
+        ? Math.min((uploadedBytes / this.totalBytes) * 100, 100)
+        : this.totalBytes === 0
+        ? 100
+        : 0,
+      bytesPerSecond: this.bytesPerSecond,
+      eta:
+        remainingBytes !== undefined && this.bytesPerSecond > 0
+          ? remainingBytes / this.bytesPerSecond
+          : undefined,
+      chunks: { ...counts, total: this.totalChunks },
+      attempts,
+      ...(this.isDeduplicated && { deduplicated: true }),
+    };
+  }
+
+  // Update the throughput with an exponential moving average over time
+  private sample() {
+    const time = Date.now();
+    const elapsed = time - (this.lastSample?.time ?? time);
+    if (!this.lastSample || elapsed <= 0) return;
+
+    const rate =
+      ((this.transferredBytes - this.lastSample.transferredBytes) / elapsed) *
+      1000;
+    const weight = 1 - Math.exp(-elapsed / SMOOTHING_WINDOW);
+    this.bytesPerSecond =
+      this.bytesPerSecond === 0
+        ? rate
+        : this.bytesPerSecond + weight * (rate - this.bytesPerSecond);
+    this.lastSample = { time, transferredBytes: this.transferredBytes };
+  }
+
+  private emit() {
+    const progress = this.progress;
+    if (this.totalBytes !== undefined) {
+      this.context.onProgressChange?.(progress.percentage); // Numeric progress needs a known total
+    }
+    this.context.onProgress?.(progress);
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Retrier from "./Retrier";
+import isRetryableError from "./isRetryableError";
+import { ChecksumMismatchError, FileUploadError, NetworkError } from "./Errors";
+import type { RetryPolicy } from "../types";
+
+const policy = (overrides: RetryPolicy = {}): RetryPolicy => ({
+  maxAttempts: 3,
+  maxTotalRetries: Infinity,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: "none",
+  retryable: isRetryableError,
+  respectRetryAfter: true,
+  ...overrides,
+});
+
+const serverError = (status: number, retryAfter?: number) =>
+  new FileUploadError(`HTTP ${status}`, { status, retryAfter });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Retrier", () => {
+  it("stops after maxAttempts of a chunk", () => {
+    const retrier = new Retrier(policy({ maxAttempts: 3 }));
+    const error = serverError(503);
+
+    expect(retrier.getDelay({ error, attempt: 1, chunkIndex: 0 })).toBe(1000);
+    expect(retrier.getDelay({ error, attempt: 2, chunkIndex: 0 })).toBe(2000);
+    expect(
+      retrier.getDelay({ error, attempt: 3, chunkIndex: 0 })
+    ).toBeUndefined();
+  });
+
+  it("shares maxTotalRetries across chunks", () => {
+    const retrier = new Retrier(policy({ maxTotalRetries: 2 }));
+    const error = serverError(500);
+
+    expect(retrier.getDelay({ error, attempt: 1, chunkIndex: 0 })).toBe(1000);
+    expect(retrier.getDelay({ error, attempt: 1, chunkIndex: 1 })).toBe(1000);
+    expect(
+      retrier.getDelay({ error, attempt: 1, chunkIndex: 2 })
+    ).toBeUndefined();
+  });
+
+  it("caps the exponential backoff at maxDelay", () => {
+    const retrier = new Retrier(
+      policy({ maxAttempts: 10, baseDelay: 1000, maxDelay: 5000 })
+    );
+    const delays = [1, 2, 3, 4, 5].map((attempt) =>
+      retrier.getDelay({ error: serverError(502), attempt })
+    );
+
+    expect(delays).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it("spreads delays with full jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const retrier = new Retrier(policy({ jitter: "full" }));
+
+    expect(retrier.getDelay({ error: serverError(503), attempt: 2 })).toBe(
+      1000
+    );
+  });
+
+  it("grows decorrelated jitter from the previous delay of the chunk", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const retrier = new Retrier(
+      policy({ jitter: "decorrelated", maxAttempts: 5 })
+    );
+    const error = serverError(503);
+
+    expect(retrier.getDelay({ error, attempt: 1, chunkIndex: 0 })).toBe(3000);
+    expect(retrier.getDelay({ error, attempt: 2, chunkIndex: 0 })).toBe(9000);
+    expect(retrier.getDelay({ error, attempt: 1, chunkIndex: 1 })).toBe(3000);
+  });
+
+  it("waits at least as long as Retry-After", () => {
+    const retrier = new Retrier(policy());
+    const error = serverError(429, 7000);
+
+    expect(retrier.getDelay({ error, attempt: 1 })).toBe(7000);
+    expect(
+      new Retrier(policy({ respectRetryAfter: false })).getDelay({
+        error,
+        attempt: 1,
+      })
+    ).toBe(1000);
+  });
+
+  it("reports every retry to onRetry", () => {
+    const onRetry = vi.fn();
+    const retrier = new Retrier(policy({ onRetry }));
+    const error = serverError(500);
+
+    retrier.getDelay({ error, attempt: 1, chunkIndex: 4 });
+    retrier.getDelay({ error: serverError(400), attempt: 1, chunkIndex: 5 });
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith({
+      chunkIndex: 4,
+      attempt: 1,
+      delay: 1000,
+      error,
+    });
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each([408, 429, 500, 503])("retries status %i", (status) => {
+    expect(isRetryableError(serverError(status))).toBe(true);
+  });
+
+  it.each([400, 401, 404, 413])("fails fast on status %i", (status) => {
+    expect(isRetryableError(serverError(status))).toBe(false);
+  });
+
+  it("retries network errors and checksum mismatches", () => {
+    expect(isRetryableError(new NetworkError("Upload failed"))).toBe(true);
+    expect(isRetryableError(new ChecksumMismatchError("Mismatch"))).toBe(true);
+    expect(isRetryableError(new Error("Bug"))).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { FileUploadError } from "./Errors";
+import type { RetryPolicy } from "../types";
+
+// Decide whether failed requests of one upload are retried, and when
+export default class Retrier {
+  private policy: RetryPolicy;
+  private totalRetries = 0;
+  private previousDelays: Map<number | undefined, number> = new Map(); // Last delay of every chunk, for decorrelated jitter
+
+  constructor(policy: RetryPolicy) {
+    this.policy = policy;
+  }
+
+  // Milliseconds to wait before the next attempt, undefined when the error is final
+  public getDelay({
+    error,
+    attempt,
+    chunkIndex,
+  }: {
+    error: unknown;
+    attempt: number;
+    chunkIndex?: number;
+  }) {
+    const { maxAttempts, maxTotalRetries, retryable } = this.policy;
+    if (
+      attempt >= maxAttempts! ||
+      this.totalRetries >= maxTotalRetries! ||
+      !retryable!(error, attempt)
+    ) {
+      return undefined;
+    }
+
+    let delay = this.backoff(attempt, chunkIndex);
+    if (
+      this.policy.respectRetryAfter &&
+      error instanceof FileUploadError &&
+      error.retryAfter !== undefined
+    ) {
+      delay = Math.max(delay, error.retryAfter); // The server knows best when to come back
+    }
+
+    this.totalRetries++;
+    this.previousDelays.set(chunkIndex, delay);
+    this.policy.onRetry?.({ chunkIndex, attempt, delay, error });
+    return delay;
+  }
+
+  // Exponential backoff capped at maxDelay, with the configured jitter
+  private backoff(attempt: number, chunkIndex?: number) {
+    const baseDelay = this.policy.baseDelay!;
+    const maxDelay = this.policy.maxDelay!;
+
+    switch (this.policy.jitter) {
+      case "decorrelated": {
+        const previous = this.previousDelays.get(chunkIndex) ?? baseDelay;
+        return Math.min(
+          maxDelay,
+          baseDelay + Math.random() * Math.max(previous * 3 - baseDelay, 0)
+        );
+      }
+      case "none":
+        return Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+      default: // Full jitter
+        return (
+          Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+        );
+    }
+  }
+}
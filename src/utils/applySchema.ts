@@ -0,0 +1,16 @@
+import { ResponseParseError } from "./Errors";
+import type { ResponseSchema } from "../types";
+
+// Check a response body at runtime, so the response type is not an unchecked cast
+export default function applySchema<T>(
+  schema: ResponseSchema<T>,
+  body: unknown
+): T {
+  try {
+    return typeof schema === "function" ? schema(body) : schema.parse(body);
+  } catch (error) {
+    throw new ResponseParseError("Response does not match the schema", {
+      cause: error,
+    });
+  }
+}
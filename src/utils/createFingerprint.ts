@@ -0,0 +1,17 @@
+import type { FileInfo } from "../types";
+
+// Build a stable identifier for an upload so its progress can be found again after a reload
+export default function createFingerprint(
+  file: FileInfo,
+  chunkSize: number,
+  uploadUrl: string
+) {
+  return [
+    "upload-chunkfile",
+    uploadUrl, // The same file sent to another server is another upload
+    file.name,
+    file.size,
+    file.lastModified,
+    chunkSize,
+  ].join(":");
+}
@@ -0,0 +1,32 @@
+import parseRetryAfter from "./parseRetryAfter";
+import { HttpError } from "./Errors";
+import type { TransportResponse } from "../types";
+
+// Build an error from an error response, keeping the body so callers can show the server message
+export default function createHttpError(
+  { status, responseText, getHeader }: TransportResponse,
+  body: unknown = parseBody(responseText) // Already parsed body, when there is one
+) {
+  const serverMessage = (body as { message?: unknown } | undefined)?.message;
+  return new HttpError(
+    typeof serverMessage === "string"
+      ? `HTTP ${status}: ${serverMessage}`
+      : `HTTP ${status}`,
+    {
+      status,
+      body,
+      responseText,
+      getHeader,
+      retryAfter: parseRetryAfter(getHeader("Retry-After")),
+    }
+  );
+}
+
+// Error bodies are usually JSON, fall back to the raw text
+function parseBody(responseText: string) {
+  try {
+    return responseText ? JSON.parse(responseText) : undefined;
+  } catch {
+    return responseText;
+  }
+}
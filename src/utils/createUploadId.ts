@@ -0,0 +1,9 @@
+import toHex from "../integrity/toHex";
+
+// Random identifier that links the chunks of one upload on the server
+export default function createUploadId() {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return toHex(crypto.getRandomValues(new Uint8Array(16))); // randomUUID needs a secure context in browsers
+}
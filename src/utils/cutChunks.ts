@@ -0,0 +1,8 @@
+// Cut a file into chunks one at a time, asking for the size of every next chunk
+export default function* cutChunks(size: number, nextSize: () => number) {
+  for (let chunkIndex = 0, start = 0; start < size; chunkIndex++) {
+    const end = Math.min(start + nextSize(), size);
+    yield { chunkIndex, start, end };
+    start = end;
+  }
+}
@@ -0,0 +1,13 @@
+// Decode comma separated "key base64(value)" pairs, the reverse of encodeMetadata
+export default function decodeMetadata(header: string) {
+  const metadata: Record<string, string> = {};
+
+  header.split(",").forEach((pair) => {
+    const [key, value = ""] = pair.trim().split(" ");
+    if (!key) return;
+    const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+    metadata[key] = new TextDecoder().decode(bytes);
+  });
+
+  return metadata;
+}
@@ -0,0 +1,9 @@
+import toBase64 from "./toBase64";
+
+// Encode metadata as comma separated "key base64(value)" pairs, the tus Upload-Metadata format
+export default function encodeMetadata(metadata: Record<string, string>) {
+  return Object.entries(metadata)
+    .filter(([, value]) => value !== "")
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(",");
+}
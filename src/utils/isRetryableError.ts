@@ -0,0 +1,15 @@
+import { ChecksumMismatchError, FileUploadError } from "./Errors";
+
+// Retry network errors, timeouts, rate limits and server errors, fail fast on other client errors
+export default function isRetryableError(error: unknown) {
+  if (error instanceof ChecksumMismatchError) {
+    return true; // The chunk was corrupted on the way, sending it again can succeed
+  }
+  if (error instanceof FileUploadError) {
+    const { status } = error;
+    return (
+      status === undefined || status === 408 || status === 429 || status >= 500
+    );
+  }
+  return false;
+}
@@ -0,0 +1,8 @@
+// Match a MIME type against exact types and families such as "image/*"
+export default function matchesType(type: string, patterns: string[]) {
+  return patterns.some((pattern) =>
+    pattern.endsWith("/*")
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern
+  );
+}
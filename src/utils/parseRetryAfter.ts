@@ -0,0 +1,12 @@
+// Convert a Retry-After header, in seconds or as an HTTP date, to milliseconds
+export default function parseRetryAfter(value: string | null | undefined) {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
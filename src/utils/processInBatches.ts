@@ -0,0 +1,146 @@
+import delay from "./delay";
+import { UploadAbortedError, UploadAggregateError } from "./Errors";
+import type ConcurrencyLimiter from "./ConcurrencyLimiter";
+import type BandwidthLimiter from "./BandwidthLimiter";
+import type { MultipartOptions, UploadContext } from "../types";
+
+// Process items in batches with concurrency control
+export default async function processInBatches<TItem, TResult>(
+  items: Iterable<TItem> | AsyncIterable<TItem>,
+  processFn: (item: TItem, attempt: number) => Promise<TResult>, // Attempt starts at 1
+  options: MultipartOptions & {
+    limiter?: ConcurrencyLimiter; // Shared limit across uploads, on top of maxParallel
+    bandwidth?: {
+      limiter: BandwidthLimiter;
+      bytes: (item: TItem) => number;
+    }; // Paces every attempt by its size once it holds a concurrency slot
+    context?: UploadContext; // Pause and cancel state of the upload
+    retry?: (
+      item: TItem,
+      error: unknown,
+      attempt: number
+    ) => number | undefined; // Delay before the next attempt, undefined to fail
+    onAttemptFailed?: (item: TItem, willRetry: boolean) => void; // Called after every failed attempt
+    isFinal?: (item: TItem) => boolean; // A final item starts only once every other item has settled
+    wrapError?: (item: TItem, error: unknown, attempt: number) => unknown; // Error thrown once an item fails for good
+  }
+): Promise<TResult> {
+  const {
+    limiter,
+    bandwidth,
+    context,
+    retry,
+    onAttemptFailed,
+    isFinal,
+    wrapError,
+  } = options;
+  const toFinalError = (item: TItem, error: unknown, attempt: number) =>
+    wrapError ? wrapError(item, error, attempt) : error;
+
+  // Semaphore to control concurrency
+  const semaphore = {
+    count: options.maxParallel!,
+    async wait() {
+      while (this.count <= 0) await delay(500); // Wait if maximum concurrency is reached
+      this.count--;
+    },
+    signal() {
+      this.count++;
+    },
+  };
+
+  // Give the shared slot back while an item waits, and take one again before it is sent
+  const waitWithoutSlot = async (wait: () => Promise<void>) => {
+    limiter?.release();
+    try {
+      await wait();
+    } finally {
+      await limiter?.acquire();
+    }
+  };
+
+  // Function to execute with retries
+  const executeWithRetry = async (
+    item: TItem,
+    attempt = 1
+  ): Promise<TResult> => {
+    try {
+      await bandwidth?.limiter.acquire(bandwidth.bytes(item), context?.signal); // Wait for the bytes of this attempt
+      return await processFn(item, attempt);
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        if (!context || context.cancelled) {
+          onAttemptFailed?.(item, false);
+          throw toFinalError(item, error, attempt); // Abort error should not be retried
+        }
+        onAttemptFailed?.(item, true);
+        await waitWithoutSlot(() => context.waitIfPaused()); // Aborted by a pause, send it again once resumed
+        return executeWithRetry(item, attempt);
+      }
+
+      const retryDelay = retry?.(item, error, attempt);
+      if (retryDelay === undefined) {
+        onAttemptFailed?.(item, false);
+        throw toFinalError(item, error, attempt); // Throw error when it is final or the retries are used up
+      }
+
+      onAttemptFailed?.(item, true);
+      await waitWithoutSlot(async () => {
+        context?.setRetrying(true);
+        await delay(retryDelay); // Delay before retry
+        context?.setRetrying(false);
+        await context?.waitIfPaused();
+      });
+      return executeWithRetry(item, attempt + 1); // Retry
+    }
+  };
+
+  const tasks: Promise<TResult>[] = [];
+  const failures: unknown[] = []; // The first error stops scheduling new items
+
+  // Pull items lazily so streaming sources are only read, and adaptive chunks only sized, when a slot is free
+  const iterator =
+    Symbol.asyncIterator in items
+      ? items[Symbol.asyncIterator]()
+      : items[Symbol.iterator]();
+  while (true) {
+    await context?.waitIfPaused(); // Do not start new items while paused
+    await semaphore.wait(); // Wait for concurrency slot
+    const next = failures.length > 0 ? undefined : await iterator.next();
+    if (next && !next.done && isFinal?.(next.value)) {
+      await Promise.allSettled(tasks); // Hold the final item back until the others are done
+    }
+    if (next && !next.done) await limiter?.acquire(); // Wait for a shared slot
+    if (!next || next.done || failures.length > 0) {
+      if (next && !next.done) limiter?.release();
+      semaphore.signal();
+      if (failures.length > 0) await iterator.return?.(); // Stop reading the source
+      break;
+    }
+    const item = next.value;
+
+    const task = (async () => {
+      try {
+        return await executeWithRetry(item);
+      } finally {
+        limiter?.release(); // Release shared slot
+        semaphore.signal(); // Release concurrency slot
+      }
+    })();
+    task.catch((error) => failures.push(error));
+    tasks.push(task);
+  }
+
+  await Promise.allSettled(tasks); // Wait for all tasks to settle
+
+  // Chunks aborted alongside a failure are not failures of their own
+  const errors = failures.filter(
+    (error) => !(error instanceof UploadAbortedError)
+  );
+  if (errors.length > 1) {
+    throw new UploadAggregateError(`${errors.length} chunks failed`, errors);
+  }
+  if (failures.length > 0) throw errors[0] ?? failures[0];
+
+  return tasks[tasks.length - 1]; // Return the result of the final item
+}
@@ -0,0 +1,26 @@
+import type { PayloadOptions } from "../types";
+
+// Fill in the default form field and header keys, the client and the server receiver read the same keys
+export default function resolvePayloadOptions(
+  payloadOptions?: PayloadOptions
+): PayloadOptions {
+  return {
+    chunkName: payloadOptions?.chunkName ?? "chunk", // Default chunk name key
+    fileName: payloadOptions?.fileName ?? "fileName", // Default file name key
+    currentChunk: payloadOptions?.currentChunk ?? "currentChunk", // Default current chunk key
+    totalChunk: payloadOptions?.totalChunk ?? "totalChunk", // Default total chunk key
+    checksum: payloadOptions?.checksum ?? "checksum", // Default chunk checksum key
+    fileChecksum: payloadOptions?.fileChecksum ?? "fileChecksum", // Default file checksum key
+    lastChunk: payloadOptions?.lastChunk ?? "lastChunk", // Default last chunk marker key
+    startOffset: payloadOptions?.startOffset ?? "startOffset", // Default chunk start byte key
+    endOffset: payloadOptions?.endOffset ?? "endOffset", // Default chunk end byte key, exclusive
+    uploadId: payloadOptions?.uploadId ?? "uploadId", // Default upload id key
+    fileSize: payloadOptions?.fileSize ?? "fileSize", // Default file size key
+    fileType: payloadOptions?.fileType ?? "fileType", // Default MIME type key
+    lastModified: payloadOptions?.lastModified ?? "lastModified", // Default last modified time key
+    chunkSize: payloadOptions?.chunkSize ?? "chunkSize", // Default chunk size key of the init request
+    contentEncoding: payloadOptions?.contentEncoding ?? "contentEncoding", // Default compressed chunk encoding key
+    iv: payloadOptions?.iv ?? "iv", // Default encrypted chunk IV key
+    authTag: payloadOptions?.authTag ?? "authTag", // Default encrypted chunk auth tag key
+  };
+}
@@ -0,0 +1,19 @@
+import { UploadAbortedError } from "./Errors";
+import type { UploadContext } from "../types";
+
+// Run a step with the signal of the upload, again once a pause that aborted it ends
+export default async function runResumable<T>(
+  context: UploadContext,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  for (;;) {
+    try {
+      return await run(context.signal);
+    } catch (error) {
+      if (!(error instanceof UploadAbortedError) || context.cancelled) {
+        throw error;
+      }
+      await context.waitIfPaused(); // Aborted by a pause, run it again once resumed
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type {
+  HookContext,
+  HookRequest,
+  RequestHooks,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../types";
+
+const MAX_REPLAYS = 3; // Guard against a hook that replays every response
+
+// Send a request through the transport, running the request hooks around it
+export default async function sendWithHooks(
+  transport: Transport,
+  request: TransportRequest,
+  hooks: RequestHooks,
+  upload: Pick<HookContext, "uploadId" | "fileName"> // Upload the request belongs to
+): Promise<TransportResponse> {
+  const context: HookContext = {
+    ...upload,
+    chunkIndex: request.chunkIndex,
+    attempt: request.attempt ?? 1,
+    method: request.method,
+    signal: request.signal,
+  };
+
+  // A replay runs beforeRequest again, so a refreshed token is picked up
+  for (let replays = 0; ; replays++) {
+    const hookRequest: HookRequest = {
+      url: request.url,
+      headers: { ...request.headers },
+      fields: {},
+      withCredentials: request.withCredentials ?? false,
+    };
+    const { url, headers, fields, withCredentials } =
+      (await hooks.beforeRequest?.(hookRequest, context)) ?? hookRequest;
+
+    const response = await transport.send({
+      ...request,
+      url,
+      headers,
+      withCredentials,
+      body: appendFields(request.body, fields),
+    });
+
+    const action = await hooks.afterResponse?.(response, context);
+    if (action !== "replay" || replays >= MAX_REPLAYS) {
+      return response;
+    }
+  }
+}
+
+// Add the hook fields to a copy of the form, so replays start from the original form
+function appendFields(
+  body: TransportRequest["body"],
+  fields: Record<string, string>
+) {
+  const entries = Object.entries(fields);
+  if (!(body instanceof FormData) || entries.length === 0) return body;
+
+  const formData = new FormData();
+  body.forEach((value, key) => formData.append(key, value));
+  entries.forEach(([key, value]) => formData.append(key, value));
+  return formData;
+}
@@ -0,0 +1,11 @@
+// Encode bytes or a UTF-8 string as base64 in any runtime that has btoa
+export default function toBase64(value: string | ArrayBuffer | Uint8Array) {
+  const bytes =
+    typeof value === "string"
+      ? new TextEncoder().encode(value)
+      : new Uint8Array(value);
+
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
@@ -0,0 +1,26 @@
+import {
+  ChunkUploadError,
+  FileUploadError,
+  UploadAbortedError,
+} from "./Errors";
+
+// Attach the chunk and attempt to the final error of a chunk, wrapping errors that are not upload errors
+export default function toChunkError(
+  error: unknown,
+  chunkIndex: number,
+  attempt: number
+) {
+  if (error instanceof UploadAbortedError) return error;
+  if (error instanceof FileUploadError) {
+    error.chunkIndex ??= chunkIndex;
+    error.attempt ??= attempt;
+    return error;
+  }
+
+  return new ChunkUploadError(
+    `Chunk ${chunkIndex} failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    { chunkIndex, attempt, cause: error }
+  );
+}
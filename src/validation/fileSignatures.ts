@@ -0,0 +1,138 @@
+type FileSignature = {
+  type: string;
+  extensions: string[]; // Extensions of files that start with this signature
+  offset?: number; // Position of the bytes, 0 by default
+  bytes: (number | undefined)[]; // Undefined matches any byte
+};
+
+// Magic bytes of common image, video, audio, document, archive and executable formats
+const signatures: FileSignature[] = [
+  {
+    type: "image/png",
+    extensions: ["png"],
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  {
+    type: "image/jpeg",
+    extensions: ["jpg", "jpeg", "jfif"],
+    bytes: [0xff, 0xd8, 0xff],
+  },
+  { type: "image/gif", extensions: ["gif"], bytes: ascii("GIF8") },
+  {
+    type: "image/webp",
+    extensions: ["webp"],
+    bytes: [...ascii("RIFF"), ...any(4), ...ascii("WEBP")],
+  },
+  {
+    type: "image/tiff",
+    extensions: ["tif", "tiff"],
+    bytes: [0x49, 0x49, 0x2a, 0x00],
+  },
+  {
+    type: "image/tiff",
+    extensions: ["tif", "tiff"],
+    bytes: [0x4d, 0x4d, 0x00, 0x2a],
+  },
+  { type: "image/bmp", extensions: ["bmp"], bytes: ascii("BM") },
+  {
+    type: "image/x-icon",
+    extensions: ["ico"],
+    bytes: [0x00, 0x00, 0x01, 0x00],
+  },
+  {
+    type: "video/mp4",
+    extensions: ["mp4", "m4v", "m4a", "mov", "3gp", "heic", "heif", "avif"], // ISO base media files share the ftyp box
+    offset: 4,
+    bytes: ascii("ftyp"),
+  },
+  {
+    type: "video/webm",
+    extensions: ["webm", "mkv"],
+    bytes: [0x1a, 0x45, 0xdf, 0xa3],
+  },
+  {
+    type: "video/x-msvideo",
+    extensions: ["avi"],
+    bytes: [...ascii("RIFF"), ...any(4), ...ascii("AVI ")],
+  },
+  {
+    type: "audio/wav",
+    extensions: ["wav"],
+    bytes: [...ascii("RIFF"), ...any(4), ...ascii("WAVE")],
+  },
+  { type: "audio/mpeg", extensions: ["mp3"], bytes: ascii("ID3") },
+  { type: "audio/mpeg", extensions: ["mp3"], bytes: [0xff, 0xfb] },
+  { type: "audio/mpeg", extensions: ["mp3"], bytes: [0xff, 0xf3] },
+  { type: "audio/mpeg", extensions: ["mp3"], bytes: [0xff, 0xf2] },
+  {
+    type: "audio/ogg",
+    extensions: ["ogg", "oga", "ogv", "opus"],
+    bytes: ascii("OggS"),
+  },
+  { type: "audio/flac", extensions: ["flac"], bytes: ascii("fLaC") },
+  { type: "application/pdf", extensions: ["pdf"], bytes: ascii("%PDF") },
+  {
+    type: "application/zip",
+    extensions: [
+      "zip",
+      "docx",
+      "xlsx",
+      "pptx",
+      "odt",
+      "ods",
+      "odp",
+      "epub",
+      "jar",
+      "apk",
+    ], // Office and other container formats are zip files
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+  },
+  {
+    type: "application/vnd.rar",
+    extensions: ["rar"],
+    bytes: [...ascii("Rar!"), 0x1a, 0x07],
+  },
+  {
+    type: "application/x-7z-compressed",
+    extensions: ["7z"],
+    bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+  },
+  { type: "application/gzip", extensions: ["gz", "tgz"], bytes: [0x1f, 0x8b] },
+  {
+    type: "application/x-msdownload",
+    extensions: ["exe", "dll"],
+    bytes: ascii("MZ"),
+  },
+  {
+    type: "application/x-elf",
+    extensions: [],
+    bytes: [0x7f, ...ascii("ELF")],
+  },
+];
+
+// Bytes needed to test every signature
+export const SIGNATURE_LENGTH = Math.max(
+  ...signatures.map(({ offset = 0, bytes }) => offset + bytes.length)
+);
+
+// Find the format of a file from its first bytes
+export default function detectSignature(header: Uint8Array) {
+  return signatures.find(({ offset = 0, bytes }) =>
+    bytes.every(
+      (byte, index) => byte === undefined || header[offset + index] === byte
+    )
+  );
+}
+
+// Extensions that have a known signature, a file with one of them must start with it
+export function isSignedExtension(extension: string) {
+  return signatures.some(({ extensions }) => extensions.includes(extension));
+}
+
+function ascii(text: string) {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function any(count: number): undefined[] {
+  return new Array(count).fill(undefined);
+}
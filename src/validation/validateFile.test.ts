@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import validateFile from "./validateFile";
+import createBlobSource from "../sources/createBlobSource";
+import createStreamSource from "../sources/createStreamSource";
+import UploadChunkFile from "../UploadChunkFile";
+import { ValidationError } from "../utils/Errors";
+import type { FileSource, ValidationOptions } from "../types";
+
+const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const source = (bytes: number[], name: string, type = "") =>
+  createBlobSource(new File([Uint8Array.from(bytes)], name, { type }));
+
+const failedRules = async (file: FileSource, options: ValidationOptions) => {
+  const error = await validateFile(file, options).catch((e) => e);
+  return error instanceof ValidationError
+    ? error.failures.map(({ rule }) => rule)
+    : [];
+};
+
+describe("validateFile", () => {
+  it("accepts a file that passes every rule", async () => {
+    await expect(
+      validateFile(source(png, "photo.png", "image/png"), {
+        maxSize: 100,
+        minSize: 1,
+        allowedTypes: ["image/*"],
+        allowedExtensions: [".png"],
+        checkSignature: true,
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it("reports every failed rule at once", async () => {
+    const file = source([1, 2, 3, 4], "notes.txt", "text/plain");
+
+    await expect(
+      failedRules(file, {
+        maxSize: 2,
+        allowedTypes: ["image/png"],
+        allowedExtensions: ["png", "jpg"],
+        validators: [() => "Name is taken", () => ["Too old", "Too plain"]],
+      })
+    ).resolves.toEqual([
+      "maxSize",
+      "type",
+      "extension",
+      "custom",
+      "custom",
+      "custom",
+    ]);
+    await expect(failedRules(file, { minSize: 10 })).resolves.toEqual([
+      "minSize",
+    ]);
+  });
+
+  it("rejects content of a type that is not allowed", async () => {
+    await expect(
+      failedRules(source(png, "photo.jpg", "image/jpeg"), {
+        allowedTypes: ["image/jpeg"],
+        checkSignature: true,
+      })
+    ).resolves.toEqual(["signature"]);
+  });
+
+  it("rejects content that does not match a signed extension", async () => {
+    await expect(
+      failedRules(source([1, 2, 3, 4, 5, 6, 7, 8], "photo.png"), {
+        checkSignature: true,
+      })
+    ).resolves.toEqual(["signature"]);
+  });
+
+  it("skips the size and signature of a stream without a length", async () => {
+    const stream = createStreamSource(
+      new Blob([new Uint8Array(1000)]).stream(),
+      "capture.png"
+    );
+
+    await expect(
+      validateFile(stream, { maxSize: 10, checkSignature: true })
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects the upload before the first request", async () => {
+    const transport = { send: vi.fn() };
+    const uploader = new UploadChunkFile({
+      transport,
+      validate: { maxSize: 2 },
+    });
+
+    await expect(
+      uploader.uploadFile({
+        file: new File(["hello"], "a.txt"),
+        uploadUrl: "/upload",
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+});
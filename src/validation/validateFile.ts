@@ -0,0 +1,102 @@
+import detectSignature, {
+  isSignedExtension,
+  SIGNATURE_LENGTH,
+} from "./fileSignatures";
+import matchesType from "../utils/matchesType";
+import { ValidationError } from "../utils/Errors";
+import type {
+  FileSource,
+  ValidationFailure,
+  ValidationOptions,
+} from "../types";
+
+// Check the file against every rule and reject with all the failures at once
+export default async function validateFile(
+  source: FileSource,
+  options: ValidationOptions
+) {
+  const { maxSize, minSize, allowedTypes, allowedExtensions } = options;
+  const failures: ValidationFailure[] = [];
+  const extension = getExtension(source.name);
+
+  // Sizes of streams without a known length cannot be checked up front
+  if (source.size !== undefined) {
+    if (maxSize !== undefined && source.size > maxSize) {
+      failures.push({
+        rule: "maxSize",
+        message: `File is larger than ${maxSize} bytes`,
+      });
+    }
+    if (minSize !== undefined && source.size < minSize) {
+      failures.push({
+        rule: "minSize",
+        message: `File is smaller than ${minSize} bytes`,
+      });
+    }
+  }
+
+  if (allowedTypes && !matchesType(source.type, allowedTypes)) {
+    failures.push({
+      rule: "type",
+      message: `File type '${source.type || "unknown"}' is not allowed`,
+    });
+  }
+
+  if (
+    allowedExtensions &&
+    !allowedExtensions.some(
+      (allowed) => allowed.replace(/^\./, "").toLowerCase() === extension
+    )
+  ) {
+    failures.push({
+      rule: "extension",
+      message: `File extension '${extension || "none"}' is not allowed`,
+    });
+  }
+
+  // Streams are read once, their first bytes cannot be read ahead
+  if (options.checkSignature && source.kind === "random") {
+    const header = new Uint8Array(
+      await (await source.read(0, SIGNATURE_LENGTH)).arrayBuffer()
+    );
+    const signature = detectSignature(header);
+
+    if (
+      signature &&
+      allowedTypes &&
+      !matchesType(signature.type, allowedTypes)
+    ) {
+      failures.push({
+        rule: "signature",
+        message: `File content is '${signature.type}', which is not allowed`,
+      });
+    } else if (
+      isSignedExtension(extension) &&
+      !signature?.extensions.includes(extension)
+    ) {
+      failures.push({
+        rule: "signature",
+        message: `File content does not match its '.${extension}' extension`,
+      });
+    }
+  }
+
+  for (const validator of options.validators ?? []) {
+    const result = await validator(source);
+    (Array.isArray(result) ? result : result ? [result] : []).forEach(
+      (message) => failures.push({ rule: "custom", message })
+    );
+  }
+
+  if (failures.length > 0) {
+    throw new ValidationError(
+      failures.map(({ message }) => message).join("; "),
+      failures
+    );
+  }
+}
+
+function getExtension(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
@@ -1,10 +1,24 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  format: ["cjs", "esm", "iife"],
-  entry: ["./src/index.ts"],
-  dts: true,
-  shims: true,
-  skipNodeModulesBundle: true,
-  clean: true,
-});
+export default defineConfig([
+  {
+    format: ["cjs", "esm"],
+    entry: {
+      index: "./src/index.ts",
+      react: "./src/react/index.ts",
+      server: "./src/server/index.ts",
+      testing: "./src/testing/index.ts",
+    },
+    splitting: true, // Entries share one copy of the core, so errors pass instanceof checks across them
+    dts: true,
+    shims: true,
+    skipNodeModulesBundle: true,
+    clean: true,
+  },
+  {
+    format: ["iife"], // Script tag build of the main entry
+    entry: ["./src/index.ts"],
+    shims: true,
+    skipNodeModulesBundle: true,
+  },
+]);